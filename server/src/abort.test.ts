@@ -0,0 +1,53 @@
+/**
+ * Tests for abort helpers
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { abortError, delay, isAbortError, throwIfAborted } from './abort.js';
+
+describe('abort helpers', () => {
+  test('recognizes AbortErrors', () => {
+    expect(isAbortError(abortError())).toBe(true);
+    expect(isAbortError(new Error('AbortError'))).toBe(false);
+  });
+
+  test('treats whatever an aborted fetch throws as an abort once its signal fired', async () => {
+    const controller = new AbortController();
+    controller.abort('Request cancelled by the client');
+    const error = await fetch('http://127.0.0.1:9', { signal: controller.signal }).catch((e: unknown) => e);
+
+    expect(error).toBe('Request cancelled by the client');
+    expect(isAbortError(error)).toBe(false);
+    expect(isAbortError(error, controller.signal)).toBe(true);
+    expect(isAbortError(new Error('Bad gateway'), new AbortController().signal)).toBe(false);
+  });
+
+  test('throwIfAborted only throws once the signal fires', () => {
+    const controller = new AbortController();
+    expect(() => throwIfAborted(controller.signal)).not.toThrow();
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+
+    controller.abort();
+    expect(() => throwIfAborted(controller.signal)).toThrow('Request cancelled');
+  });
+
+  test('delay resolves after the time elapses', async () => {
+    await expect(delay(5, new AbortController().signal)).resolves.toBeUndefined();
+  });
+
+  test('delay rejects early when aborted', async () => {
+    const controller = new AbortController();
+    const start = Date.now();
+    const sleeping = delay(10_000, controller.signal);
+    controller.abort();
+
+    await expect(sleeping).rejects.toThrow('Request cancelled');
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+
+  test('delay rejects immediately for an already-aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(delay(10_000, controller.signal)).rejects.toThrow('Request cancelled');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Abort Helpers
+ *
+ * MCP passes each tool call an AbortSignal that fires when the client cancels
+ * the request (e.g. the user pressed Escape in Claude). Waits that honor it
+ * reject with a DOMException named "AbortError", the same error fetch() throws
+ * for an aborted request.
+ */
+
+export function abortError(message = 'Request cancelled'): DOMException {
+  return new DOMException(message, 'AbortError');
+}
+
+/**
+ * @param signal The signal the failed operation was given: once it has fired,
+ *   anything thrown counts as the abort. fetch() rejects with the signal's
+ *   reason, which is whatever the canceller passed (the MCP SDK passes a string).
+ */
+export function isAbortError(error: unknown, signal?: AbortSignal): boolean {
+  return (error instanceof DOMException && error.name === 'AbortError') || signal?.aborted === true;
+}
+
+/**
+ * @throws DOMException (AbortError) if the signal has fired
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw abortError();
+}
+
+/**
+ * Sleep, rejecting early with an AbortError if the signal fires
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
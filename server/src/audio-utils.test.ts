@@ -9,6 +9,8 @@ import {
   pcmToMuLawSample,
   muLawToPcm,
   muLawToPcmSample,
+  interleaveStereo,
+  pcmToWav,
 } from './audio-utils.js';
 
 describe('resample24kTo8k', () => {
@@ -207,6 +209,65 @@ describe('muLawToPcm', () => {
   });
 });
 
+describe('interleaveStereo', () => {
+  test('alternates left and right samples', () => {
+    const left = Buffer.alloc(4);
+    left.writeInt16LE(100, 0);
+    left.writeInt16LE(200, 2);
+    const right = Buffer.alloc(4);
+    right.writeInt16LE(-100, 0);
+    right.writeInt16LE(-200, 2);
+
+    const stereo = interleaveStereo(left, right);
+
+    expect(stereo.length).toBe(8);
+    expect(stereo.readInt16LE(0)).toBe(100);
+    expect(stereo.readInt16LE(2)).toBe(-100);
+    expect(stereo.readInt16LE(4)).toBe(200);
+    expect(stereo.readInt16LE(6)).toBe(-200);
+  });
+
+  test('pads the shorter channel with silence', () => {
+    const left = Buffer.alloc(6);
+    left.writeInt16LE(300, 4);
+    const right = Buffer.alloc(2);
+    right.writeInt16LE(50, 0);
+
+    const stereo = interleaveStereo(left, right);
+
+    expect(stereo.length).toBe(12);
+    expect(stereo.readInt16LE(2)).toBe(50);
+    expect(stereo.readInt16LE(8)).toBe(300);
+    expect(stereo.readInt16LE(10)).toBe(0);
+  });
+});
+
+describe('pcmToWav', () => {
+  test('writes a RIFF header for the audio format', () => {
+    const pcm = Buffer.alloc(16);
+    const wav = pcmToWav(pcm, 8000, 2);
+
+    expect(wav.length).toBe(44 + 16);
+    expect(wav.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(wav.readUInt32LE(4)).toBe(36 + 16);
+    expect(wav.toString('ascii', 8, 12)).toBe('WAVE');
+    expect(wav.readUInt16LE(20)).toBe(1);
+    expect(wav.readUInt16LE(22)).toBe(2);
+    expect(wav.readUInt32LE(24)).toBe(8000);
+    expect(wav.readUInt32LE(28)).toBe(32000);
+    expect(wav.readUInt16LE(32)).toBe(4);
+    expect(wav.readUInt16LE(34)).toBe(16);
+    expect(wav.toString('ascii', 36, 40)).toBe('data');
+    expect(wav.readUInt32LE(40)).toBe(16);
+  });
+
+  test('defaults to mono', () => {
+    const wav = pcmToWav(Buffer.alloc(4), 24000);
+    expect(wav.readUInt16LE(22)).toBe(1);
+    expect(wav.readUInt32LE(28)).toBe(48000);
+  });
+});
+
 describe('end-to-end audio pipeline', () => {
   test('resample then encode produces valid output', () => {
     // Simulate TTS output: 24kHz PCM
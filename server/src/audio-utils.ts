@@ -4,6 +4,7 @@
  * Functions for audio format conversion needed for phone calls:
  * - Resampling: Convert 24kHz TTS audio to 8kHz phone audio
  * - Encoding: Convert PCM to mu-law (G.711) for PSTN compatibility
+ * - Containers: Wrap PCM in a WAV file for recordings
  */
 
 /**
@@ -92,7 +93,7 @@ export function muLawToPcmSample(muLaw: number): number {
 }
 
 /**
- * Convert mu-law audio buffer to PCM (for testing/verification)
+ * Convert mu-law audio buffer to PCM (used for call recordings)
  *
  * @param muLawData - 8-bit mu-law encoded audio buffer
  * @returns 16-bit PCM audio buffer
@@ -105,3 +106,50 @@ export function muLawToPcm(muLawData: Buffer): Buffer {
   }
   return pcmData;
 }
+
+/**
+ * Interleave two mono 16-bit PCM buffers into one stereo buffer.
+ * The shorter side is padded with silence.
+ *
+ * @param left - 16-bit PCM audio for the left channel
+ * @param right - 16-bit PCM audio for the right channel
+ * @returns 16-bit stereo PCM audio (L, R, L, R, ...)
+ */
+export function interleaveStereo(left: Buffer, right: Buffer): Buffer {
+  const samples = Math.max(left.length, right.length) / 2;
+  const stereo = Buffer.alloc(samples * 4);
+  for (let i = 0; i < samples; i++) {
+    if (i * 2 < left.length) stereo.writeInt16LE(left.readInt16LE(i * 2), i * 4);
+    if (i * 2 < right.length) stereo.writeInt16LE(right.readInt16LE(i * 2), i * 4 + 2);
+  }
+  return stereo;
+}
+
+/**
+ * Wrap 16-bit PCM audio in a WAV (RIFF) container
+ *
+ * @param pcmData - 16-bit PCM audio, interleaved if stereo
+ * @param sampleRate - Samples per second per channel
+ * @param channels - Number of channels
+ * @returns Complete WAV file contents
+ */
+export function pcmToWav(pcmData: Buffer, sampleRate: number, channels = 1): Buffer {
+  const header = Buffer.alloc(44);
+  const blockAlign = channels * 2;
+
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + pcmData.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16);  // fmt chunk size
+  header.writeUInt16LE(1, 20);  // PCM format
+  header.writeUInt16LE(channels, 22);
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * blockAlign, 28);  // byte rate
+  header.writeUInt16LE(blockAlign, 32);
+  header.writeUInt16LE(16, 34);  // bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(pcmData.length, 40);
+
+  return Buffer.concat([header, pcmData]);
+}
@@ -0,0 +1,154 @@
+/**
+ * Tests for call outcome classification and retry policy
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import {
+  CallError,
+  isDialFailure,
+  toCallError,
+  classifyTwilioStatus,
+  classifyTelnyxHangup,
+  parseRetryOutcomes,
+  loadRetryPolicy,
+} from './call-outcome.js';
+
+describe('classifyTwilioStatus', () => {
+  test('maps failed dial statuses', () => {
+    expect(classifyTwilioStatus('busy', false)).toBe('BUSY');
+    expect(classifyTwilioStatus('no-answer', false)).toBe('NO_ANSWER');
+    expect(classifyTwilioStatus('failed', false)).toBe('CARRIER_FAILED');
+    expect(classifyTwilioStatus('canceled', false)).toBe('CARRIER_FAILED');
+  });
+
+  test('treats completed-before-answer as declined', () => {
+    expect(classifyTwilioStatus('completed', false)).toBe('DECLINED');
+  });
+
+  test('treats completed after answering as the user hanging up', () => {
+    expect(classifyTwilioStatus('completed', true)).toBe('USER_HUNG_UP');
+  });
+
+  test('returns null for non-terminal statuses', () => {
+    expect(classifyTwilioStatus('ringing', false)).toBeNull();
+    expect(classifyTwilioStatus('in-progress', true)).toBeNull();
+  });
+});
+
+describe('classifyTelnyxHangup', () => {
+  test('maps hangup causes for unanswered calls', () => {
+    expect(classifyTelnyxHangup('user_busy', 'callee', false)).toBe('BUSY');
+    expect(classifyTelnyxHangup('timeout', 'unknown', false)).toBe('NO_ANSWER');
+    expect(classifyTelnyxHangup('no_answer', 'callee', false)).toBe('NO_ANSWER');
+    expect(classifyTelnyxHangup('call_rejected', 'callee', false)).toBe('DECLINED');
+  });
+
+  test('uses hangup source for normal clearing', () => {
+    expect(classifyTelnyxHangup('normal_clearing', 'callee', false)).toBe('DECLINED');
+    expect(classifyTelnyxHangup('normal_clearing', 'caller', false)).toBe('CARRIER_FAILED');
+  });
+
+  test('treats unknown causes as carrier failures', () => {
+    expect(classifyTelnyxHangup('unallocated_number', 'unknown', false)).toBe('CARRIER_FAILED');
+    expect(classifyTelnyxHangup(undefined, undefined, false)).toBe('CARRIER_FAILED');
+  });
+
+  test('classifies hangups after the call was answered', () => {
+    expect(classifyTelnyxHangup('normal_clearing', 'callee', true)).toBe('USER_HUNG_UP');
+    expect(classifyTelnyxHangup('unspecified', 'unknown', true)).toBe('CARRIER_FAILED');
+  });
+});
+
+describe('CallError', () => {
+  test('defaults the message to the outcome description', () => {
+    const error = new CallError('SILENCE_TIMEOUT');
+    expect(error.message).toBe('The user did not say anything');
+    expect(error.code).toBe('SILENCE_TIMEOUT');
+  });
+
+  test('marks deliberate user actions as not retryable', () => {
+    expect(new CallError('DECLINED').retryable).toBe(false);
+    expect(new CallError('USER_HUNG_UP').retryable).toBe(false);
+    expect(new CallError('NO_ANSWER').retryable).toBe(true);
+    expect(new CallError('TTS_FAILED').retryable).toBe(true);
+  });
+});
+
+describe('toCallError', () => {
+  test('wraps other errors with the given code', () => {
+    const error = toCallError(new Error('socket closed'), 'TTS_FAILED');
+    expect(error.code).toBe('TTS_FAILED');
+    expect(error.message).toBe('Text-to-speech failed: socket closed');
+  });
+
+  test('keeps an existing outcome code', () => {
+    const original = new CallError('USER_HUNG_UP');
+    expect(toCallError(original, 'TTS_FAILED')).toBe(original);
+  });
+});
+
+describe('isDialFailure', () => {
+  test('separates dial failures from mid-call outcomes', () => {
+    expect(isDialFailure('BUSY')).toBe(true);
+    expect(isDialFailure('DECLINED')).toBe(true);
+    expect(isDialFailure('USER_HUNG_UP')).toBe(false);
+    expect(isDialFailure('STT_UNAVAILABLE')).toBe(false);
+  });
+});
+
+describe('parseRetryOutcomes', () => {
+  test('parses outcome names', () => {
+    expect(parseRetryOutcomes('busy, no-answer,DECLINED,failed')).toEqual(['BUSY', 'NO_ANSWER', 'DECLINED', 'CARRIER_FAILED']);
+  });
+
+  test('ignores empty entries', () => {
+    expect(parseRetryOutcomes('')).toEqual([]);
+    expect(parseRetryOutcomes('busy,,')).toEqual(['BUSY']);
+  });
+
+  test('rejects unknown names', () => {
+    expect(() => parseRetryOutcomes('busy,voicemail')).toThrow('Unknown retry outcome "voicemail"');
+  });
+});
+
+describe('loadRetryPolicy', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.CALLME_RETRY_ATTEMPTS;
+    delete process.env.CALLME_RETRY_DELAY_MS;
+    delete process.env.CALLME_RETRY_ON;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  test('defaults to a single attempt', () => {
+    expect(loadRetryPolicy()).toEqual({
+      maxAttempts: 1,
+      delayMs: 60000,
+      retryOn: ['NO_ANSWER', 'BUSY'],
+    });
+  });
+
+  test('loads values from env', () => {
+    process.env.CALLME_RETRY_ATTEMPTS = '3';
+    process.env.CALLME_RETRY_DELAY_MS = '30000';
+    process.env.CALLME_RETRY_ON = 'busy';
+    expect(loadRetryPolicy()).toEqual({
+      maxAttempts: 3,
+      delayMs: 30000,
+      retryOn: ['BUSY'],
+    });
+  });
+
+  test('falls back to defaults for invalid numbers', () => {
+    process.env.CALLME_RETRY_ATTEMPTS = '0';
+    process.env.CALLME_RETRY_DELAY_MS = 'soon';
+    const policy = loadRetryPolicy();
+    expect(policy.maxAttempts).toBe(1);
+    expect(policy.delayMs).toBe(60000);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Call Outcomes
+ *
+ * Typed model of why a call didn't go as planned, filled from Twilio status
+ * callbacks, Telnyx hangup causes and our own STT/TTS failures. Tool results
+ * carry the code so Claude can react sensibly (e.g. not redialing after a decline).
+ */
+
+/**
+ * Why a call never reached the user
+ */
+export type DialFailureCode = 'NO_ANSWER' | 'BUSY' | 'DECLINED' | 'CARRIER_FAILED';
+
+/**
+ * Everything that can end or break a call turn
+ */
+export type CallOutcomeCode =
+  | DialFailureCode
+  | 'USER_HUNG_UP'
+  | 'SILENCE_TIMEOUT'
+  | 'STT_UNAVAILABLE'
+  | 'TTS_FAILED';
+
+const DIAL_FAILURE_CODES: readonly string[] = ['NO_ANSWER', 'BUSY', 'DECLINED', 'CARRIER_FAILED'];
+
+/**
+ * Human-readable explanation of each outcome
+ */
+export const CALL_OUTCOME_DESCRIPTIONS: Record<CallOutcomeCode, string> = {
+  NO_ANSWER: 'The user did not answer',
+  BUSY: 'The line was busy',
+  DECLINED: 'The user declined the call',
+  CARRIER_FAILED: 'The call could not be connected',
+  USER_HUNG_UP: 'The user hung up',
+  SILENCE_TIMEOUT: 'The user did not say anything',
+  STT_UNAVAILABLE: 'Speech recognition is unavailable',
+  TTS_FAILED: 'Text-to-speech failed',
+};
+
+/**
+ * Outcomes where calling (or asking) again is reasonable.
+ * A decline or hang-up is a deliberate choice by the user, so don't retry those.
+ */
+const RETRYABLE_OUTCOMES: ReadonlySet<CallOutcomeCode> = new Set<CallOutcomeCode>([
+  'NO_ANSWER',
+  'BUSY',
+  'CARRIER_FAILED',
+  'SILENCE_TIMEOUT',
+  'STT_UNAVAILABLE',
+  'TTS_FAILED',
+]);
+
+export function isDialFailure(code: CallOutcomeCode): code is DialFailureCode {
+  return DIAL_FAILURE_CODES.includes(code);
+}
+
+export function isRetryableOutcome(code: CallOutcomeCode): boolean {
+  return RETRYABLE_OUTCOMES.has(code);
+}
+
+/**
+ * Error carrying a machine-readable outcome code
+ */
+export class CallError extends Error {
+  constructor(
+    public readonly code: CallOutcomeCode,
+    message: string = CALL_OUTCOME_DESCRIPTIONS[code],
+  ) {
+    super(message);
+    this.name = 'CallError';
+  }
+
+  get retryable(): boolean {
+    return isRetryableOutcome(this.code);
+  }
+}
+
+/**
+ * Wrap an unexpected error in a CallError with the given code.
+ * Existing CallErrors pass through unchanged so the original cause wins.
+ */
+export function toCallError(error: unknown, code: CallOutcomeCode): CallError {
+  if (error instanceof CallError) return error;
+  const detail = error instanceof Error ? error.message : String(error);
+  return new CallError(code, `${CALL_OUTCOME_DESCRIPTIONS[code]}: ${detail}`);
+}
+
+/**
+ * Names used in CALLME_RETRY_ON for each retryable outcome
+ */
+const RETRY_OUTCOME_NAMES: Record<string, DialFailureCode> = {
+  'no-answer': 'NO_ANSWER',
+  'busy': 'BUSY',
+  'declined': 'DECLINED',
+  'failed': 'CARRIER_FAILED',
+};
+
+export interface RetryPolicy {
+  /** Total attempts including the first call (1 = no retries) */
+  maxAttempts: number;
+  /** Wait between attempts */
+  delayMs: number;
+  /** Outcomes that trigger another attempt */
+  retryOn: DialFailureCode[];
+}
+
+/**
+ * Parse a comma-separated outcome list such as "busy,no-answer"
+ * @throws Error on unknown outcome names
+ */
+export function parseRetryOutcomes(value: string): DialFailureCode[] {
+  return value
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map((name) => {
+      const code = RETRY_OUTCOME_NAMES[name];
+      if (!code) {
+        throw new Error(`Unknown retry outcome "${name}". Use: ${Object.keys(RETRY_OUTCOME_NAMES).join(', ')}`);
+      }
+      return code;
+    });
+}
+
+/**
+ * Load the retry policy from environment variables
+ */
+export function loadRetryPolicy(): RetryPolicy {
+  const maxAttempts = parseInt(process.env.CALLME_RETRY_ATTEMPTS || '1', 10);
+  const delayMs = parseInt(process.env.CALLME_RETRY_DELAY_MS || '60000', 10);
+
+  return {
+    maxAttempts: isNaN(maxAttempts) || maxAttempts < 1 ? 1 : maxAttempts,
+    delayMs: isNaN(delayMs) || delayMs < 0 ? 60000 : delayMs,
+    retryOn: parseRetryOutcomes(process.env.CALLME_RETRY_ON || 'no-answer,busy'),
+  };
+}
+
+/**
+ * Classify a terminal Twilio CallStatus
+ * @param answered Whether the call was answered before it ended
+ * @returns The outcome code, or null for non-terminal statuses
+ */
+export function classifyTwilioStatus(callStatus: string, answered: boolean): CallOutcomeCode | null {
+  switch (callStatus) {
+    case 'busy':
+      return 'BUSY';
+    case 'no-answer':
+      return 'NO_ANSWER';
+    case 'failed':
+    case 'canceled':
+      return 'CARRIER_FAILED';
+    case 'completed':
+      // Hung up while it was still ringing: the user rejected the call
+      return answered ? 'USER_HUNG_UP' : 'DECLINED';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Classify a Telnyx call.hangup event
+ * @param cause payload.hangup_cause (e.g. "user_busy", "timeout", "call_rejected")
+ * @param source payload.hangup_source ("caller", "callee" or "unknown")
+ * @param answered Whether the call was answered before it ended
+ * @returns The outcome code
+ */
+export function classifyTelnyxHangup(cause: string | undefined, source: string | undefined, answered: boolean): CallOutcomeCode {
+  if (answered) {
+    return cause === 'normal_clearing' || cause === 'originator_cancel' ? 'USER_HUNG_UP' : 'CARRIER_FAILED';
+  }
+
+  switch (cause) {
+    case 'user_busy':
+      return 'BUSY';
+    case 'timeout':
+    case 'no_answer':
+      return 'NO_ANSWER';
+    case 'call_rejected':
+      return 'DECLINED';
+    case 'normal_clearing':
+      // The callee ending an unanswered call means they rejected it
+      return source === 'callee' ? 'DECLINED' : 'CARRIER_FAILED';
+    default:
+      return 'CARRIER_FAILED';
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Tests for call recording
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CallRecorder, saveMuLawWav } from './call-recorder.js';
+import { pcmToMuLaw } from './audio-utils.js';
+
+/** One second of a constant 16-bit sample, as 8kHz mu-law */
+function tone(value: number, seconds = 1): Buffer {
+  const pcm = Buffer.alloc(8000 * seconds * 2);
+  for (let i = 0; i < pcm.length; i += 2) pcm.writeInt16LE(value, i);
+  return pcmToMuLaw(pcm);
+}
+
+describe('CallRecorder', () => {
+  let dir: string;
+  let clock: number;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'callme-recording-'));
+    clock = 0;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function createRecorder(): CallRecorder {
+    return new CallRecorder(CallRecorder.pathFor(join(dir, 'nested'), 'call-1'), 0, () => clock);
+  }
+
+  test('writes a stereo 8kHz WAV with caller left and Claude right', async () => {
+    const recorder = createRecorder();
+    recorder.addInbound(tone(1000));
+    recorder.addOutbound(tone(-1000));
+
+    const recording = await recorder.save();
+    expect(recording.path).toBe(join(dir, 'nested', 'call-1.wav'));
+    expect(recording.durationSeconds).toBe(1);
+
+    const wav = readFileSync(recording.path);
+    expect(wav.readUInt16LE(22)).toBe(2);
+    expect(wav.readUInt32LE(24)).toBe(8000);
+    expect(wav.readUInt32LE(40)).toBe(8000 * 4);
+
+    const left = wav.readInt16LE(44);
+    const right = wav.readInt16LE(46);
+    expect(left).toBeGreaterThan(900);
+    expect(right).toBeLessThan(-900);
+  });
+
+  test('pads gaps with silence so both sides stay aligned', async () => {
+    const recorder = createRecorder();
+    recorder.addInbound(tone(1000, 3));
+    // Claude starts talking two seconds into the call
+    clock = 2000;
+    recorder.addOutbound(tone(-1000));
+
+    const recording = await recorder.save();
+    expect(recording.durationSeconds).toBe(3);
+
+    const wav = readFileSync(recording.path);
+    const rightAt = (seconds: number) => wav.readInt16LE(44 + seconds * 8000 * 4 + 2);
+    expect(rightAt(1)).toBe(0);
+    expect(rightAt(2.5)).toBeLessThan(-900);
+  });
+
+  test('ignores small timing jitter', () => {
+    const recorder = createRecorder();
+    recorder.addInbound(tone(1000, 1));
+    clock = 1050;
+    recorder.addInbound(tone(1000, 1));
+    expect(recorder.durationSeconds).toBe(2);
+  });
+
+  test('overwrites earlier snapshots', async () => {
+    const recorder = createRecorder();
+    recorder.addInbound(tone(1000));
+    await recorder.save();
+
+    clock = 1000;
+    recorder.addInbound(tone(1000));
+    const recording = await recorder.save();
+
+    expect(recording.durationSeconds).toBe(2);
+    expect(readFileSync(recording.path).readUInt32LE(40)).toBe(2 * 8000 * 4);
+  });
+});
+
+describe('saveMuLawWav', () => {
+  test('writes caller audio as a mono 8kHz WAV', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'callme-note-'));
+    try {
+      const recording = await saveMuLawWav(join(dir, 'notes', 'note.wav'), tone(1000, 2));
+      const wav = readFileSync(recording.path);
+
+      expect(recording.durationSeconds).toBe(2);
+      expect(wav.readUInt16LE(22)).toBe(1);
+      expect(wav.readUInt32LE(24)).toBe(8000);
+      expect(wav.readUInt32LE(40)).toBe(2 * 8000 * 2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Call Recorder
+ *
+ * Captures both sides of a call as it happens and writes them to a stereo WAV
+ * file: the caller on the left channel, Claude (TTS) on the right. Both sides
+ * arrive as 8kHz mu-law; gaps (e.g. while Claude is silent) are filled with
+ * silence using wall-clock time so the two channels stay aligned.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { muLawToPcm, interleaveStereo, pcmToWav } from './audio-utils.js';
+
+/** Phone audio is 8kHz mono mu-law: one byte per sample */
+const SAMPLE_RATE = 8000;
+
+/** mu-law encoding of a zero sample */
+const MULAW_SILENCE = 0xff;
+
+/** Gaps shorter than this are network jitter, not silence, and aren't padded */
+const GAP_TOLERANCE_MS = 100;
+
+export interface CallRecording {
+  /** Absolute path of the WAV file */
+  path: string;
+  durationSeconds: number;
+}
+
+class RecordingTrack {
+  private chunks: Buffer[] = [];
+  length = 0;
+
+  /**
+   * Append audio, first padding with silence up to the given sample position
+   */
+  append(muLaw: Buffer, position: number): void {
+    const gap = position - this.length;
+    if (gap > (SAMPLE_RATE * GAP_TOLERANCE_MS) / 1000) {
+      this.chunks.push(Buffer.alloc(gap, MULAW_SILENCE));
+      this.length += gap;
+    }
+    this.chunks.push(Buffer.from(muLaw));
+    this.length += muLaw.length;
+  }
+
+  toPcm(): Buffer {
+    return muLawToPcm(Buffer.concat(this.chunks));
+  }
+}
+
+/**
+ * Write caller audio (8kHz mu-law) to a mono WAV file, e.g. a voice note
+ */
+export async function saveMuLawWav(path: string, muLaw: Buffer): Promise<CallRecording> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, pcmToWav(muLawToPcm(muLaw), SAMPLE_RATE));
+  return { path, durationSeconds: Math.round(muLaw.length / SAMPLE_RATE) };
+}
+
+export class CallRecorder {
+  private inbound = new RecordingTrack();
+  private outbound = new RecordingTrack();
+
+  constructor(
+    readonly path: string,
+    private readonly startTime: number = Date.now(),
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Where a call's recording is written
+   */
+  static pathFor(directory: string, callId: string): string {
+    return join(directory, `${callId}.wav`);
+  }
+
+  /**
+   * Record audio from the caller (8kHz mu-law)
+   */
+  addInbound(muLaw: Buffer): void {
+    this.inbound.append(muLaw, this.position());
+  }
+
+  /**
+   * Record audio sent to the caller (8kHz mu-law)
+   */
+  addOutbound(muLaw: Buffer): void {
+    this.outbound.append(muLaw, this.position());
+  }
+
+  /** True until any audio has been recorded */
+  get empty(): boolean {
+    return this.inbound.length === 0 && this.outbound.length === 0;
+  }
+
+  get durationSeconds(): number {
+    return Math.round(Math.max(this.inbound.length, this.outbound.length) / SAMPLE_RATE);
+  }
+
+  /**
+   * Write everything recorded so far to the WAV file (overwriting earlier snapshots)
+   */
+  async save(): Promise<CallRecording> {
+    const stereo = interleaveStereo(this.inbound.toPcm(), this.outbound.toPcm());
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(this.path, pcmToWav(stereo, SAMPLE_RATE, 2));
+    return { path: this.path, durationSeconds: this.durationSeconds };
+  }
+
+  /** Samples elapsed since the recording started */
+  private position(): number {
+    return Math.round(((this.now() - this.startTime) * SAMPLE_RATE) / 1000);
+  }
+}
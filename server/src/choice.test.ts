@@ -0,0 +1,65 @@
+/**
+ * Tests for choice menu helpers
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { buildChoicePrompt, matchDigitChoice, matchSpokenChoice } from './choice.js';
+
+const OPTIONS = ['merge', 'rebase', 'abort'];
+
+describe('buildChoicePrompt', () => {
+  test('reads each option with its keypad digit', () => {
+    expect(buildChoicePrompt('How should I land this branch?', OPTIONS)).toBe(
+      'How should I land this branch? Press 1 or say merge. Press 2 or say rebase. Press 3 or say abort.'
+    );
+  });
+});
+
+describe('matchDigitChoice', () => {
+  test('maps digits to zero-based indexes', () => {
+    expect(matchDigitChoice('1', OPTIONS)).toBe(0);
+    expect(matchDigitChoice('3', OPTIONS)).toBe(2);
+  });
+
+  test('rejects digits beyond the option list', () => {
+    expect(matchDigitChoice('4', OPTIONS)).toBeNull();
+  });
+
+  test('rejects non-option keys', () => {
+    expect(matchDigitChoice('0', OPTIONS)).toBeNull();
+    expect(matchDigitChoice('#', OPTIONS)).toBeNull();
+    expect(matchDigitChoice('*', OPTIONS)).toBeNull();
+  });
+});
+
+describe('matchSpokenChoice', () => {
+  test('matches an option label', () => {
+    expect(matchSpokenChoice('Rebase.', OPTIONS)).toBe(1);
+    expect(matchSpokenChoice("let's just abort it", OPTIONS)).toBe(2);
+  });
+
+  test('matches spoken numbers and ordinals', () => {
+    expect(matchSpokenChoice('two', OPTIONS)).toBe(1);
+    expect(matchSpokenChoice('Option 3', OPTIONS)).toBe(2);
+    expect(matchSpokenChoice('the first one', OPTIONS)).toBe(0);
+  });
+
+  test('prefers the longer label when one contains another', () => {
+    expect(matchSpokenChoice('run all tests', ['all tests', 'run all tests', 'tests'])).toBe(1);
+  });
+
+  test('returns null for ambiguous answers', () => {
+    expect(matchSpokenChoice('merge or rebase', OPTIONS)).toBeNull();
+    expect(matchSpokenChoice('one or two', OPTIONS)).toBeNull();
+  });
+
+  test('returns null when nothing matches', () => {
+    expect(matchSpokenChoice('what?', OPTIONS)).toBeNull();
+    expect(matchSpokenChoice('', OPTIONS)).toBeNull();
+    expect(matchSpokenChoice('five', OPTIONS)).toBeNull();
+  });
+
+  test('does not match labels inside other words', () => {
+    expect(matchSpokenChoice('emerge', OPTIONS)).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Choice Menus
+ *
+ * Helpers for reading numbered options aloud and matching the caller's answer,
+ * whether it was pressed on the keypad (DTMF) or spoken.
+ */
+
+/** Keypad digits 1-9 map to options, so menus are capped at nine entries */
+export const MAX_CHOICE_OPTIONS = 9;
+
+const NUMBER_WORDS = ['one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+const ORDINAL_WORDS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth'];
+
+/**
+ * Lowercase, drop punctuation and collapse whitespace so labels and transcripts compare cleanly
+ */
+function normalizeSpeech(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Build the text read aloud for a menu, e.g. "Which one? Press 1 or say merge. Press 2 or say rebase."
+ */
+export function buildChoicePrompt(prompt: string, options: string[]): string {
+  const menu = options.map((option, i) => `Press ${i + 1} or say ${option}.`);
+  return [prompt.trim(), ...menu].join(' ');
+}
+
+/**
+ * Map a keypad digit to an option index
+ * @returns Zero-based option index, or null if the digit doesn't select an option
+ */
+export function matchDigitChoice(digit: string, options: string[]): number | null {
+  if (!/^[1-9]$/.test(digit)) return null;
+  const index = parseInt(digit, 10) - 1;
+  return index < options.length ? index : null;
+}
+
+/**
+ * Map a spoken answer to an option index.
+ * Option labels are matched first, then spoken numbers such as "2", "two",
+ * "option two" or "the second one".
+ * @returns Zero-based option index, or null if nothing matched unambiguously
+ */
+export function matchSpokenChoice(transcript: string, options: string[]): number | null {
+  const spoken = ` ${normalizeSpeech(transcript)} `;
+  if (spoken.trim() === '') return null;
+
+  // Labels contained in a longer matching label don't count ("run tests" vs "run all tests")
+  const matched = options
+    .map((option, i) => ({ index: i, label: normalizeSpeech(option) }))
+    .filter(({ label }) => label && spoken.includes(` ${label} `));
+  const distinct = matched.filter(({ label }) =>
+    !matched.some((other) => other.label !== label && other.label.includes(label))
+  );
+
+  if (distinct.length > 0) {
+    return distinct.length === 1 ? distinct[0].index : null;
+  }
+
+  const numbers = new Set<number>();
+  for (const word of spoken.trim().split(' ')) {
+    const digit = /^[1-9]$/.test(word) ? parseInt(word, 10) - 1 : -1;
+    const index = digit >= 0 ? digit : Math.max(NUMBER_WORDS.indexOf(word), ORDINAL_WORDS.indexOf(word));
+    if (index >= 0 && index < options.length) {
+      numbers.add(index);
+    }
+  }
+
+  return numbers.size === 1 ? [...numbers][0] : null;
+}
@@ -0,0 +1,165 @@
+/**
+ * Tests for the contacts directory
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  loadContacts,
+  validateContacts,
+  findContact,
+  findContactByNumber,
+  isWithinAllowedHours,
+  formatAllowedHours,
+  type Contact,
+} from './contacts.js';
+
+describe('validateContacts', () => {
+  test('accepts valid contacts', () => {
+    expect(validateContacts([
+      { name: 'Alice', phoneNumber: '+15551234567' },
+      { name: 'Bob', phoneNumber: '+44 20 7946 0958', voice: 'nova', language: 'en', allowedHours: { start: '09:00', end: '17:30', timezone: 'Europe/London' } },
+    ])).toEqual([]);
+  });
+
+  test('requires an array', () => {
+    expect(validateContacts({ name: 'Alice' })).toEqual(['Contacts file must contain a JSON array of contacts']);
+  });
+
+  test('reports missing names, bad numbers and duplicates', () => {
+    const errors = validateContacts([
+      { phoneNumber: '+15551234567' },
+      { name: 'Alice', phoneNumber: '555-1234' },
+      { name: 'alice', phoneNumber: '+15551234567' },
+    ]);
+    expect(errors).toEqual([
+      'Contact #1 is missing a name',
+      'Contact "Alice" needs an E.164 phoneNumber (e.g. +15551234567)',
+      'Contact "alice" is listed more than once',
+    ]);
+  });
+
+  test('checks allowed hours', () => {
+    const errors = validateContacts([
+      { name: 'Alice', phoneNumber: '+15551234567', allowedHours: { start: '9am', end: '17:00' } },
+      { name: 'Bob', phoneNumber: '+15551234568', allowedHours: { start: '09:00', end: '17:00', timezone: 'Mars/Olympus' } },
+    ]);
+    expect(errors).toEqual([
+      'Contact "Alice" allowedHours needs start and end as HH:MM',
+      'Contact "Bob" has an unknown timezone: Mars/Olympus',
+    ]);
+  });
+});
+
+describe('loadContacts', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'callme-contacts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('contains only the user without a contacts file', () => {
+    expect(loadContacts('+15550000000', undefined)).toEqual([
+      { name: 'me', phoneNumber: '+15550000000' },
+    ]);
+  });
+
+  test('adds the user alongside file contacts and normalizes numbers', () => {
+    const path = join(dir, 'contacts.json');
+    writeFileSync(path, JSON.stringify([{ name: ' Alice ', phoneNumber: '+1 (555) 123-4567', voice: 'nova' }]));
+
+    expect(loadContacts('+15550000000', path)).toEqual([
+      { name: 'me', phoneNumber: '+15550000000' },
+      { name: 'Alice', phoneNumber: '+15551234567', voice: 'nova' },
+    ]);
+  });
+
+  test('lets the file override the user entry', () => {
+    const path = join(dir, 'contacts.json');
+    writeFileSync(path, JSON.stringify([{ name: 'Me', phoneNumber: '+15550000000', language: 'de' }]));
+
+    expect(loadContacts('+15550000000', path)).toEqual([
+      { name: 'Me', phoneNumber: '+15550000000', language: 'de' },
+    ]);
+  });
+
+  test('throws on invalid files', () => {
+    const path = join(dir, 'contacts.json');
+    writeFileSync(path, '[{"name": "Alice"}]');
+    expect(() => loadContacts('+15550000000', path)).toThrow('Invalid contacts file');
+
+    writeFileSync(path, 'not json');
+    expect(() => loadContacts('+15550000000', path)).toThrow('Failed to read contacts file');
+  });
+});
+
+describe('findContact', () => {
+  const contacts: Contact[] = [
+    { name: 'me', phoneNumber: '+15550000000' },
+    { name: 'Alice', phoneNumber: '+15551234567' },
+  ];
+
+  test('matches names case-insensitively', () => {
+    expect(findContact(contacts, ' alice ')?.phoneNumber).toBe('+15551234567');
+    expect(findContact(contacts, 'bob')).toBeUndefined();
+  });
+
+  test('matches numbers regardless of formatting', () => {
+    expect(findContactByNumber(contacts, '+1 555 123 4567')?.name).toBe('Alice');
+    expect(findContactByNumber(contacts, '+15559999999')).toBeUndefined();
+  });
+});
+
+describe('isWithinAllowedHours', () => {
+  const officeHours: Contact = {
+    name: 'Alice',
+    phoneNumber: '+15551234567',
+    allowedHours: { start: '09:00', end: '17:00', timezone: 'UTC' },
+  };
+  const nightShift: Contact = {
+    name: 'Bob',
+    phoneNumber: '+15551234568',
+    allowedHours: { start: '22:00', end: '06:00', timezone: 'UTC' },
+  };
+
+  test('allows calls any time without a window', () => {
+    expect(isWithinAllowedHours({ name: 'me', phoneNumber: '+15550000000' })).toBe(true);
+  });
+
+  test('checks a daytime window', () => {
+    expect(isWithinAllowedHours(officeHours, new Date('2024-05-01T09:00:00Z'))).toBe(true);
+    expect(isWithinAllowedHours(officeHours, new Date('2024-05-01T16:59:00Z'))).toBe(true);
+    expect(isWithinAllowedHours(officeHours, new Date('2024-05-01T17:00:00Z'))).toBe(false);
+    expect(isWithinAllowedHours(officeHours, new Date('2024-05-01T03:00:00Z'))).toBe(false);
+  });
+
+  test('handles windows that wrap past midnight', () => {
+    expect(isWithinAllowedHours(nightShift, new Date('2024-05-01T23:30:00Z'))).toBe(true);
+    expect(isWithinAllowedHours(nightShift, new Date('2024-05-01T05:00:00Z'))).toBe(true);
+    expect(isWithinAllowedHours(nightShift, new Date('2024-05-01T12:00:00Z'))).toBe(false);
+  });
+
+  test('uses the contact timezone', () => {
+    const berlin: Contact = { ...officeHours, allowedHours: { start: '09:00', end: '17:00', timezone: 'Europe/Berlin' } };
+    // 07:30 UTC is 09:30 in Berlin during summer time
+    expect(isWithinAllowedHours(berlin, new Date('2024-07-01T07:30:00Z'))).toBe(true);
+    expect(isWithinAllowedHours(berlin, new Date('2024-07-01T15:30:00Z'))).toBe(false);
+  });
+});
+
+describe('formatAllowedHours', () => {
+  test('describes the window', () => {
+    expect(formatAllowedHours({ name: 'me', phoneNumber: '+15550000000' })).toBe('any time');
+    expect(formatAllowedHours({
+      name: 'Alice',
+      phoneNumber: '+15551234567',
+      allowedHours: { start: '09:00', end: '17:00', timezone: 'Europe/Berlin' },
+    })).toBe('09:00-17:00 Europe/Berlin');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Contacts Directory
+ *
+ * People Claude is allowed to call, loaded from a JSON file (CALLME_CONTACTS_FILE).
+ * Each contact can carry a preferred TTS voice, a transcription language and
+ * the hours during which they accept calls. The user's own number
+ * (CALLME_USER_PHONE_NUMBER) is always in the directory as "me".
+ */
+
+import { readFileSync } from 'fs';
+
+/** Name of the built-in contact for CALLME_USER_PHONE_NUMBER */
+export const DEFAULT_CONTACT_NAME = 'me';
+
+/**
+ * Daily window during which a contact may be called, in their timezone.
+ * A window whose end is before its start wraps past midnight (e.g. 22:00-06:00).
+ */
+export interface AllowedHours {
+  /** Start of the window, "HH:MM" (24-hour) */
+  start: string;
+  /** End of the window, "HH:MM" (24-hour, exclusive) */
+  end: string;
+  /** IANA timezone such as "Europe/Berlin" (default: the server's timezone) */
+  timezone?: string;
+}
+
+export interface Contact {
+  name: string;
+  /** E.164 number, e.g. +15551234567 */
+  phoneNumber: string;
+  /** TTS voice to use on calls with this contact (default: CALLME_TTS_VOICE) */
+  voice?: string;
+  /** Language code for transcription, e.g. "en" or "de" (default: auto-detect) */
+  language?: string;
+  /** When calls are allowed (default: any time) */
+  allowedHours?: AllowedHours;
+}
+
+const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Normalize a phone number for comparison (strips spaces, dashes, parentheses)
+ */
+export function normalizePhoneNumber(phoneNumber: string): string {
+  return phoneNumber.replace(/[^\d+]/g, '');
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check parsed contacts file entries
+ * @returns List of problems (empty if the contacts are valid)
+ */
+export function validateContacts(contacts: unknown): string[] {
+  if (!Array.isArray(contacts)) {
+    return ['Contacts file must contain a JSON array of contacts'];
+  }
+
+  const errors: string[] = [];
+  const seen = new Set<string>();
+
+  contacts.forEach((entry, i) => {
+    const contact = entry as Partial<Contact>;
+    const label = typeof contact?.name === 'string' && contact.name ? `"${contact.name}"` : `#${i + 1}`;
+
+    if (typeof contact?.name !== 'string' || !contact.name.trim()) {
+      errors.push(`Contact ${label} is missing a name`);
+    } else if (seen.has(contact.name.trim().toLowerCase())) {
+      errors.push(`Contact ${label} is listed more than once`);
+    } else {
+      seen.add(contact.name.trim().toLowerCase());
+    }
+
+    if (typeof contact?.phoneNumber !== 'string' || !E164_PATTERN.test(normalizePhoneNumber(contact.phoneNumber))) {
+      errors.push(`Contact ${label} needs an E.164 phoneNumber (e.g. +15551234567)`);
+    }
+
+    const hours = contact?.allowedHours;
+    if (hours !== undefined) {
+      if (!TIME_PATTERN.test(hours?.start ?? '') || !TIME_PATTERN.test(hours?.end ?? '')) {
+        errors.push(`Contact ${label} allowedHours needs start and end as HH:MM`);
+      }
+      if (hours?.timezone !== undefined && !isValidTimezone(hours.timezone)) {
+        errors.push(`Contact ${label} has an unknown timezone: ${hours.timezone}`);
+      }
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Load the contacts directory
+ * @param userPhoneNumber The user's own number, added as the "me" contact unless the file defines one
+ * @param path Contacts file (default: CALLME_CONTACTS_FILE, or no file)
+ * @throws Error if the file can't be read or contains invalid contacts
+ */
+export function loadContacts(userPhoneNumber: string, path = process.env.CALLME_CONTACTS_FILE): Contact[] {
+  let contacts: Contact[] = [];
+
+  if (path) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to read contacts file ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const errors = validateContacts(parsed);
+    if (errors.length > 0) {
+      throw new Error(`Invalid contacts file ${path}:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    contacts = (parsed as Contact[]).map((contact) => ({
+      ...contact,
+      name: contact.name.trim(),
+      phoneNumber: normalizePhoneNumber(contact.phoneNumber),
+    }));
+  }
+
+  if (!findContact(contacts, DEFAULT_CONTACT_NAME)) {
+    contacts.unshift({ name: DEFAULT_CONTACT_NAME, phoneNumber: normalizePhoneNumber(userPhoneNumber) });
+  }
+
+  return contacts;
+}
+
+/**
+ * Look up a contact by name (case-insensitive)
+ */
+export function findContact(contacts: Contact[], name: string): Contact | undefined {
+  const wanted = name.trim().toLowerCase();
+  return contacts.find((contact) => contact.name.toLowerCase() === wanted);
+}
+
+/**
+ * Look up a contact by phone number
+ */
+export function findContactByNumber(contacts: Contact[], phoneNumber: string): Contact | undefined {
+  const wanted = normalizePhoneNumber(phoneNumber);
+  return contacts.find((contact) => contact.phoneNumber === wanted);
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a contact may be called at the given time
+ */
+export function isWithinAllowedHours(contact: Contact, now: Date = new Date()): boolean {
+  const hours = contact.allowedHours;
+  if (!hours) return true;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: hours.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const hour = parseInt(parts.find((part) => part.type === 'hour')?.value ?? '0', 10);
+  const minute = parseInt(parts.find((part) => part.type === 'minute')?.value ?? '0', 10);
+
+  const current = hour * 60 + minute;
+  const start = minutesOfDay(hours.start);
+  const end = minutesOfDay(hours.end);
+
+  return start <= end
+    ? current >= start && current < end
+    : current >= start || current < end;
+}
+
+/**
+ * Describe a contact's allowed hours, e.g. "09:00-17:00 Europe/Berlin"
+ */
+export function formatAllowedHours(contact: Contact): string {
+  const hours = contact.allowedHours;
+  if (!hours) return 'any time';
+  return `${hours.start}-${hours.end}${hours.timezone ? ` ${hours.timezone}` : ''}`;
+}
@@ -0,0 +1,70 @@
+/**
+ * Tests for conversation transcripts as MCP resources
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { ConversationStore } from './conversation-store.js';
+import { listConversationResources, readConversationResource } from './conversation-resources.js';
+
+describe('conversation resources', () => {
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    store = new ConversationStore(':memory:');
+    store.startConversation({
+      id: 'call-1-1000',
+      channel: 'phone',
+      direction: 'outbound',
+      participantName: 'Alice',
+      participantAddress: '+15551111111',
+      startedAt: 1_000_000,
+    });
+    store.addMessage('call-1-1000', 'claude', 'Ready to deploy?', 1_001_000);
+    store.addMessage('call-1-1000', 'user', 'Go ahead', 1_002_000);
+    store.endConversation('call-1-1000', 'COMPLETED', 1_010_000);
+    store.startConversation({
+      id: 'chat-1-2000',
+      channel: 'telegram',
+      direction: 'outbound',
+      participantAddress: '12345',
+      startedAt: 2_000_000,
+    });
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  test('lists calls and chats under their own URI schemes', () => {
+    const resources = listConversationResources(store);
+    expect(resources.map((r) => r.uri)).toEqual([
+      'callme://chats/chat-1-2000',
+      'callme://calls/call-1-1000/transcript',
+    ]);
+    expect(resources[0].description).toBe('Ongoing');
+    expect(resources[1].title).toBe('Call with Alice, 1970-01-01T00:16:40.000Z');
+    expect(resources[1].description).toBe('10s, COMPLETED, 2 messages');
+  });
+
+  test('lists nothing when history is disabled', () => {
+    expect(listConversationResources(null)).toEqual([]);
+  });
+
+  test('reads a call transcript', () => {
+    const uri = 'callme://calls/call-1-1000/transcript';
+    const { contents } = readConversationResource(store, uri);
+
+    expect(contents).toHaveLength(1);
+    expect(contents[0].uri).toBe(uri);
+    expect(contents[0].mimeType).toBe('text/plain');
+    expect(contents[0].text).toContain('Alice (+15551111111)');
+    expect(contents[0].text).toContain('[1970-01-01T00:16:41.000Z] Claude: Ready to deploy?');
+    expect(contents[0].text).toContain('[1970-01-01T00:16:42.000Z] User: Go ahead');
+  });
+
+  test('rejects unknown URIs and mismatched channels', () => {
+    expect(() => readConversationResource(store, 'callme://calls/nope/transcript')).toThrow('No conversation');
+    expect(() => readConversationResource(store, 'callme://chats/call-1-1000')).toThrow('No conversation');
+    expect(() => readConversationResource(store, 'file:///etc/passwd')).toThrow('Unknown resource');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Conversation Resources
+ *
+ * Publishes call and chat transcripts from the conversation store as MCP
+ * resources, so a client can attach an earlier conversation as context
+ * without a tool call:
+ *
+ *   callme://calls/{callId}/transcript
+ *   callme://chats/{chatId}
+ */
+
+import type { ConversationStore, ConversationSummary } from './conversation-store.js';
+import { formatTranscript } from './conversation-tools.js';
+
+/** Most recent conversations returned by resources/list */
+const RESOURCE_LIST_LIMIT = 50;
+
+const CALL_URI = /^callme:\/\/calls\/([^/]+)\/transcript$/;
+const CHAT_URI = /^callme:\/\/chats\/([^/]+)$/;
+
+export const CONVERSATION_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'callme://calls/{callId}/transcript',
+    name: 'Call transcript',
+    description: 'Timestamped transcript of a phone call, with who it was with, duration and outcome',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'callme://chats/{chatId}',
+    name: 'Telegram chat',
+    description: 'Timestamped messages of a Telegram chat, with duration and outcome',
+    mimeType: 'text/plain',
+  },
+];
+
+/**
+ * Resource URI for a call or chat
+ */
+export function conversationUri(conversation: Pick<ConversationSummary, 'id' | 'channel'>): string {
+  const id = encodeURIComponent(conversation.id);
+  return conversation.channel === 'phone' ? `callme://calls/${id}/transcript` : `callme://chats/${id}`;
+}
+
+/**
+ * Recent conversations as MCP resources, newest first
+ */
+export function listConversationResources(store: ConversationStore | null) {
+  if (!store) return [];
+
+  return store.listConversations({ limit: RESOURCE_LIST_LIMIT }).map((conversation) => {
+    const who = conversation.participantName ?? conversation.participantAddress;
+    const when = new Date(conversation.startedAt).toISOString();
+    return {
+      uri: conversationUri(conversation),
+      name: conversation.id,
+      title: `${conversation.channel === 'phone' ? 'Call' : 'Chat'} with ${who}, ${when}`,
+      description: conversation.endedAt === null
+        ? 'Ongoing'
+        : `${conversation.durationSeconds}s, ${conversation.outcome}, ${conversation.messageCount} messages`,
+      mimeType: 'text/plain',
+    };
+  });
+}
+
+/**
+ * Read a transcript resource
+ * @throws Error if the URI isn't a conversation URI, history is disabled or the conversation doesn't exist
+ */
+export function readConversationResource(store: ConversationStore | null, uri: string) {
+  const callMatch = CALL_URI.exec(uri);
+  const chatMatch = CHAT_URI.exec(uri);
+  const match = callMatch ?? chatMatch;
+  if (!match) throw new Error(`Unknown resource: ${uri}`);
+  if (!store) {
+    throw new Error('Conversation history is disabled (CALLME_HISTORY_DB=off)');
+  }
+
+  const conversation = store.getConversation(decodeURIComponent(match[1]));
+  if (!conversation || conversation.channel !== (callMatch ? 'phone' : 'telegram')) {
+    throw new Error(`No conversation: ${uri}`);
+  }
+
+  return {
+    contents: [{ uri, mimeType: 'text/plain', text: formatTranscript(conversation) }],
+  };
+}
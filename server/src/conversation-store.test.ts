@@ -0,0 +1,117 @@
+/**
+ * Tests for the conversation history store
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { ConversationStore } from './conversation-store.js';
+
+describe('ConversationStore', () => {
+  let store: ConversationStore;
+
+  beforeEach(() => {
+    store = new ConversationStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  function recordCall(id: string, startedAt: number, messages: string[]): void {
+    store.startConversation({
+      id,
+      channel: 'phone',
+      direction: 'outbound',
+      participantName: 'me',
+      participantAddress: '+15550000000',
+      startedAt,
+    });
+    messages.forEach((text, i) => store.addMessage(id, i % 2 === 0 ? 'claude' : 'user', text, startedAt + (i + 1) * 1000));
+  }
+
+  test('stores a conversation with timestamped messages', () => {
+    recordCall('call-1', 1_000_000, ['Should I deploy?', 'Yes, ship it']);
+    store.endConversation('call-1', 'COMPLETED', 1_045_000);
+
+    const conversation = store.getConversation('call-1');
+    expect(conversation).toEqual({
+      id: 'call-1',
+      channel: 'phone',
+      direction: 'outbound',
+      participantName: 'me',
+      participantAddress: '+15550000000',
+      startedAt: 1_000_000,
+      endedAt: 1_045_000,
+      durationSeconds: 45,
+      outcome: 'COMPLETED',
+      messageCount: 2,
+      messages: [
+        { speaker: 'claude', text: 'Should I deploy?', timestamp: 1_001_000 },
+        { speaker: 'user', text: 'Yes, ship it', timestamp: 1_002_000 },
+      ],
+    });
+  });
+
+  test('returns null for unknown conversations', () => {
+    expect(store.getConversation('nope')).toBeNull();
+  });
+
+  test('keeps the first outcome when ended twice', () => {
+    recordCall('call-1', 1_000_000, []);
+    store.endConversation('call-1', 'USER_HUNG_UP', 1_010_000);
+    store.endConversation('call-1', 'COMPLETED', 1_020_000);
+
+    expect(store.getConversation('call-1')?.outcome).toBe('USER_HUNG_UP');
+  });
+
+  test('reports each conversation ending once', () => {
+    const ended: string[] = [];
+    store.onConversationEnded((id) => ended.push(id));
+    recordCall('call-1', 1_000_000, []);
+    store.endConversation('call-1', 'COMPLETED');
+    store.endConversation('call-1', 'COMPLETED');
+    store.endConversation('unknown', 'COMPLETED');
+
+    expect(ended).toEqual(['call-1']);
+  });
+
+  test('lists ongoing and ended conversations, newest first', () => {
+    recordCall('call-1', 1_000_000, ['one']);
+    store.endConversation('call-1', 'COMPLETED', 1_005_000);
+    recordCall('call-2', 2_000_000, []);
+    store.startConversation({ id: 'chat-1', channel: 'telegram', direction: 'outbound', participantAddress: '12345', startedAt: 3_000_000 });
+
+    const all = store.listConversations();
+    expect(all.map((c) => c.id)).toEqual(['chat-1', 'call-2', 'call-1']);
+    expect(all[1].endedAt).toBeNull();
+    expect(all[1].durationSeconds).toBeNull();
+    expect(all[2].messageCount).toBe(1);
+
+    expect(store.listConversations({ channel: 'telegram' }).map((c) => c.id)).toEqual(['chat-1']);
+    expect(store.listConversations({ limit: 1 }).map((c) => c.id)).toEqual(['chat-1']);
+  });
+
+  test('searches message text case-insensitively', () => {
+    recordCall('call-1', 1_000_000, ['What about the database migration?', 'Run it tonight']);
+    recordCall('call-2', 2_000_000, ['Anything else?', 'Remember the DATABASE backup']);
+
+    const matches = store.searchConversations('database');
+    expect(matches.map((m) => [m.conversation.id, m.message.text])).toEqual([
+      ['call-2', 'Remember the DATABASE backup'],
+      ['call-1', 'What about the database migration?'],
+    ]);
+    expect(matches[0].message.speaker).toBe('user');
+  });
+
+  test('treats LIKE wildcards in queries literally', () => {
+    recordCall('call-1', 1_000_000, ['100% done', '100 percent']);
+
+    expect(store.searchConversations('100%').map((m) => m.message.text)).toEqual(['100% done']);
+    expect(store.searchConversations('_')).toEqual([]);
+  });
+
+  test('logs instead of throwing when a write fails', () => {
+    recordCall('call-1', 1_000_000, []);
+    // Duplicate primary key
+    expect(() => recordCall('call-1', 1_000_000, [])).not.toThrow();
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Conversation Store
+ *
+ * Keeps a local SQLite history (bun:sqlite) of every call and Telegram chat:
+ * who it was with, when each utterance was said, how long it lasted and how
+ * it ended. Lets Claude look up earlier conversations after they've ended.
+ *
+ * Writes never throw: a history problem is logged but must not break a live call.
+ */
+
+import { Database } from 'bun:sqlite';
+import { mkdirSync } from 'fs';
+import { homedir } from 'os';
+import { dirname, join } from 'path';
+import { log } from './mcp-logging.js';
+
+export type ConversationChannel = 'phone' | 'telegram';
+
+export interface ConversationSummary {
+  id: string;
+  channel: ConversationChannel;
+  direction: 'outbound' | 'inbound';
+  /** Contact name, if known */
+  participantName: string | null;
+  /** Phone number or Telegram chat ID */
+  participantAddress: string;
+  /** Epoch milliseconds */
+  startedAt: number;
+  /** Epoch milliseconds (null while the conversation is ongoing) */
+  endedAt: number | null;
+  durationSeconds: number | null;
+  /** How it ended, e.g. COMPLETED, VOICEMAIL or a call outcome code such as NO_ANSWER */
+  outcome: string | null;
+  messageCount: number;
+}
+
+export interface ConversationMessage {
+  speaker: 'claude' | 'user';
+  text: string;
+  /** Epoch milliseconds */
+  timestamp: number;
+}
+
+export interface Conversation extends ConversationSummary {
+  messages: ConversationMessage[];
+}
+
+export interface ConversationMatch {
+  conversation: ConversationSummary;
+  message: ConversationMessage;
+}
+
+export interface NewConversation {
+  id: string;
+  channel: ConversationChannel;
+  direction: 'outbound' | 'inbound';
+  participantName?: string | null;
+  participantAddress: string;
+  startedAt?: number;
+}
+
+interface ConversationRow {
+  id: string;
+  channel: ConversationChannel;
+  direction: 'outbound' | 'inbound';
+  participant_name: string | null;
+  participant_address: string;
+  started_at: number;
+  ended_at: number | null;
+  outcome: string | null;
+  message_count: number;
+}
+
+interface MessageRow {
+  conversation_id: string;
+  speaker: 'claude' | 'user';
+  text: string;
+  timestamp: number;
+}
+
+const SUMMARY_COLUMNS = `
+  c.id, c.channel, c.direction, c.participant_name, c.participant_address,
+  c.started_at, c.ended_at, c.outcome,
+  (SELECT COUNT(*) FROM messages m WHERE m.conversation_id = c.id) AS message_count
+`;
+
+function toSummary(row: ConversationRow): ConversationSummary {
+  return {
+    id: row.id,
+    channel: row.channel,
+    direction: row.direction,
+    participantName: row.participant_name,
+    participantAddress: row.participant_address,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    durationSeconds: row.ended_at === null ? null : Math.round((row.ended_at - row.started_at) / 1000),
+    outcome: row.outcome,
+    messageCount: row.message_count,
+  };
+}
+
+function toMessage(row: MessageRow): ConversationMessage {
+  return { speaker: row.speaker, text: row.text, timestamp: row.timestamp };
+}
+
+export class ConversationStore {
+  private db: Database;
+  private onConversationEndedCallback: ((conversationId: string) => void) | null = null;
+
+  /**
+   * @param path SQLite file, or ":memory:" for a throwaway store
+   */
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+    this.db = new Database(path, { create: true });
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS conversations (
+        id TEXT PRIMARY KEY,
+        channel TEXT NOT NULL,
+        direction TEXT NOT NULL,
+        participant_name TEXT,
+        participant_address TEXT NOT NULL,
+        started_at INTEGER NOT NULL,
+        ended_at INTEGER,
+        outcome TEXT
+      );
+      CREATE TABLE IF NOT EXISTS messages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL REFERENCES conversations(id),
+        speaker TEXT NOT NULL,
+        text TEXT NOT NULL,
+        timestamp INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS messages_conversation ON messages(conversation_id);
+      CREATE INDEX IF NOT EXISTS conversations_started ON conversations(started_at);
+    `);
+  }
+
+  startConversation(conversation: NewConversation): void {
+    this.write('start conversation', () => {
+      this.db.query(`
+        INSERT INTO conversations (id, channel, direction, participant_name, participant_address, started_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(
+        conversation.id,
+        conversation.channel,
+        conversation.direction,
+        conversation.participantName ?? null,
+        conversation.participantAddress,
+        conversation.startedAt ?? Date.now(),
+      );
+    });
+  }
+
+  addMessage(conversationId: string, speaker: ConversationMessage['speaker'], text: string, timestamp = Date.now()): void {
+    this.write('add message', () => {
+      this.db.query('INSERT INTO messages (conversation_id, speaker, text, timestamp) VALUES (?, ?, ?, ?)')
+        .run(conversationId, speaker, text, timestamp);
+    });
+  }
+
+  /**
+   * Mark a conversation as ended. Only the first call has an effect.
+   */
+  endConversation(conversationId: string, outcome: string, endedAt = Date.now()): void {
+    let ended = false;
+    this.write('end conversation', () => {
+      const { changes } = this.db.query('UPDATE conversations SET ended_at = ?, outcome = ? WHERE id = ? AND ended_at IS NULL')
+        .run(endedAt, outcome, conversationId);
+      ended = changes > 0;
+    });
+    if (ended) this.onConversationEndedCallback?.(conversationId);
+  }
+
+  /**
+   * Called once for each conversation when it ends
+   */
+  onConversationEnded(callback: (conversationId: string) => void): void {
+    this.onConversationEndedCallback = callback;
+  }
+
+  /**
+   * Most recent conversations first
+   */
+  listConversations({ limit = 20, channel }: { limit?: number; channel?: ConversationChannel } = {}): ConversationSummary[] {
+    const rows = channel
+      ? this.db.query(`SELECT ${SUMMARY_COLUMNS} FROM conversations c WHERE c.channel = ? ORDER BY c.started_at DESC LIMIT ?`)
+        .all(channel, limit)
+      : this.db.query(`SELECT ${SUMMARY_COLUMNS} FROM conversations c ORDER BY c.started_at DESC LIMIT ?`)
+        .all(limit);
+    return (rows as ConversationRow[]).map(toSummary);
+  }
+
+  getConversation(conversationId: string): Conversation | null {
+    const row = this.db.query(`SELECT ${SUMMARY_COLUMNS} FROM conversations c WHERE c.id = ?`)
+      .get(conversationId) as ConversationRow | null;
+    if (!row) return null;
+
+    const messages = this.db.query('SELECT * FROM messages WHERE conversation_id = ? ORDER BY timestamp, id')
+      .all(conversationId) as MessageRow[];
+    return { ...toSummary(row), messages: messages.map(toMessage) };
+  }
+
+  /**
+   * Find messages containing the query (case-insensitive), most recent first
+   */
+  searchConversations(query: string, limit = 20): ConversationMatch[] {
+    const pattern = `%${query.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+    const rows = this.db.query(`
+      SELECT ${SUMMARY_COLUMNS}, msg.speaker, msg.text, msg.timestamp, msg.conversation_id
+      FROM messages msg
+      JOIN conversations c ON c.id = msg.conversation_id
+      WHERE msg.text LIKE ? ESCAPE '\\'
+      ORDER BY msg.timestamp DESC, msg.id DESC
+      LIMIT ?
+    `).all(pattern, limit) as Array<ConversationRow & MessageRow>;
+
+    return rows.map((row) => ({ conversation: toSummary(row), message: toMessage(row) }));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private write(action: string, fn: () => void): void {
+    try {
+      fn();
+    } catch (error) {
+      log.error(`[History] Failed to ${action}:`, error);
+    }
+  }
+}
+
+/**
+ * Open the conversation history database
+ * @returns The store, or null if history is disabled (CALLME_HISTORY_DB=off)
+ */
+export function openConversationStore(): ConversationStore | null {
+  const path = process.env.CALLME_HISTORY_DB || join(homedir(), '.callme', 'history.db');
+  if (path === 'off') return null;
+  return new ConversationStore(path);
+}
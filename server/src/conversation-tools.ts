@@ -0,0 +1,185 @@
+/**
+ * Conversation History Tools
+ *
+ * MCP tools for looking up past calls and chats, shared by the phone and
+ * Telegram servers.
+ */
+
+import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  Conversation,
+  ConversationStore,
+  ConversationSummary,
+  ConversationChannel,
+} from './conversation-store.js';
+
+/** outputSchema for a conversation summary */
+const SUMMARY_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Call or chat ID' },
+    channel: { type: 'string', enum: ['phone', 'telegram'] },
+    direction: { type: 'string', enum: ['outbound', 'inbound'] },
+    participantName: { type: ['string', 'null'], description: 'Contact name, if known' },
+    participantAddress: { type: 'string', description: 'Phone number or Telegram chat ID' },
+    startedAt: { type: 'number', description: 'Epoch milliseconds' },
+    endedAt: { type: ['number', 'null'], description: 'Epoch milliseconds (null while ongoing)' },
+    durationSeconds: { type: ['number', 'null'] },
+    outcome: { type: ['string', 'null'], description: 'How it ended, e.g. COMPLETED, VOICEMAIL or NO_ANSWER' },
+    messageCount: { type: 'number' },
+  },
+  required: ['id', 'channel', 'direction', 'participantAddress', 'startedAt', 'messageCount'],
+};
+
+/** outputSchema for one message */
+const MESSAGE_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    speaker: { type: 'string', enum: ['claude', 'user'] },
+    text: { type: 'string' },
+    timestamp: { type: 'number', description: 'Epoch milliseconds' },
+  },
+  required: ['speaker', 'text', 'timestamp'],
+};
+
+const READ_ONLY = { readOnlyHint: true, openWorldHint: false };
+
+export const CONVERSATION_TOOLS: Tool[] = [
+  {
+    name: 'list_conversations',
+    description: 'List recent phone calls and Telegram chats with the user, newest first. Use to find an earlier conversation, e.g. "what did I say on yesterday\'s call?".',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'How many conversations to list (default: 20)' },
+        channel: { type: 'string', enum: ['phone', 'telegram'], description: 'Only list this channel' },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        conversations: { type: 'array', items: SUMMARY_OUTPUT_SCHEMA },
+      },
+      required: ['conversations'],
+    },
+    annotations: { title: 'List past conversations', ...READ_ONLY },
+  },
+  {
+    name: 'get_conversation',
+    description: 'Get the full transcript of a past call or chat, with a timestamp for every message.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'The call or chat ID, from list_conversations or search_conversations' },
+      },
+      required: ['conversation_id'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        ...SUMMARY_OUTPUT_SCHEMA.properties,
+        messages: { type: 'array', items: MESSAGE_OUTPUT_SCHEMA },
+      },
+      required: [...SUMMARY_OUTPUT_SCHEMA.required, 'messages'],
+    },
+    annotations: { title: 'Get a conversation transcript', ...READ_ONLY },
+  },
+  {
+    name: 'search_conversations',
+    description: 'Search the text of past calls and chats. Returns matching messages with their conversation IDs.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text to look for (case-insensitive)' },
+        limit: { type: 'number', description: 'Maximum matches to return (default: 20)' },
+      },
+      required: ['query'],
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        matches: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              conversation: SUMMARY_OUTPUT_SCHEMA,
+              message: MESSAGE_OUTPUT_SCHEMA,
+            },
+            required: ['conversation', 'message'],
+          },
+        },
+      },
+      required: ['matches'],
+    },
+    annotations: { title: 'Search past conversations', ...READ_ONLY },
+  },
+];
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+function formatSummary(conversation: ConversationSummary): string {
+  const who = conversation.participantName
+    ? `${conversation.participantName} (${conversation.participantAddress})`
+    : conversation.participantAddress;
+  const length = conversation.durationSeconds !== null ? `${conversation.durationSeconds}s` : 'ongoing';
+  const outcome = conversation.outcome ? `, ${conversation.outcome}` : '';
+  return `${conversation.id} | ${conversation.channel} ${conversation.direction} | ${who} | ${formatTime(conversation.startedAt)} | ${length}${outcome} | ${conversation.messageCount} messages`;
+}
+
+/**
+ * Format a conversation as a summary line followed by its timestamped messages
+ */
+export function formatTranscript(conversation: Conversation): string {
+  const lines = conversation.messages.map(
+    (message) => `[${formatTime(message.timestamp)}] ${message.speaker === 'claude' ? 'Claude' : 'User'}: ${message.text}`
+  );
+  return `${formatSummary(conversation)}\n\n${lines.join('\n') || '(no messages)'}`;
+}
+
+/**
+ * Run a conversation history tool
+ * @returns The tool result, or null if the tool isn't a history tool
+ * @throws Error if history is disabled or the conversation doesn't exist
+ */
+export function callConversationTool(
+  store: ConversationStore | null,
+  name: string,
+  args: Record<string, unknown> | undefined,
+): CallToolResult | null {
+  if (!CONVERSATION_TOOLS.some((tool) => tool.name === name)) return null;
+  if (!store) {
+    throw new Error('Conversation history is disabled (CALLME_HISTORY_DB=off)');
+  }
+
+  if (name === 'list_conversations') {
+    const { limit, channel } = (args ?? {}) as { limit?: number; channel?: ConversationChannel };
+    const conversations = store.listConversations({ limit, channel });
+    const text = conversations.length === 0
+      ? 'No conversations recorded yet.'
+      : `Conversations (newest first):\n${conversations.map(formatSummary).join('\n')}`;
+    return { content: [{ type: 'text', text }], structuredContent: { conversations } };
+  }
+
+  if (name === 'get_conversation') {
+    const { conversation_id } = args as { conversation_id: string };
+    const conversation = store.getConversation(conversation_id);
+    if (!conversation) throw new Error(`No conversation: ${conversation_id}`);
+    return {
+      content: [{ type: 'text', text: formatTranscript(conversation) }],
+      structuredContent: { ...conversation },
+    };
+  }
+
+  const { query, limit } = args as { query: string; limit?: number };
+  const matches = store.searchConversations(query, limit);
+  const lines = matches.map(({ conversation, message }) =>
+    `${conversation.id} (${conversation.channel}, ${formatTime(message.timestamp)}) ${message.speaker === 'claude' ? 'Claude' : 'User'}: ${message.text}`
+  );
+  const text = matches.length === 0
+    ? `No messages matching "${query}".`
+    : `Messages matching "${query}" (newest first):\n${lines.join('\n')}\n\nUse get_conversation for the full transcript.`;
+  return { content: [{ type: 'text', text }], structuredContent: { matches } };
+}
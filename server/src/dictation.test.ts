@@ -0,0 +1,116 @@
+/**
+ * Tests for developer dictation normalization
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  DEFAULT_DICTATION_RULES,
+  loadDictationRules,
+  normalizeDictation,
+  validateDictationRules,
+  type DictationRule,
+} from './dictation.js';
+
+describe('normalizeDictation', () => {
+  test.each([
+    ['git push dash dash force', 'git push --force'],
+    ['open slash src slash index dot ts', 'open /src/index.ts'],
+    ['slash src slash index dot ts', '/src/index.ts'],
+    ['cd back slash users back slash me', 'cd \\users\\me'],
+    ['select literal star from users', 'select * from users'],
+    ['n p m run build', 'npm run build'],
+    ['N, P, M run build.', 'npm run build.'],
+    ['rename it to camel case user id', 'rename it to userId'],
+    ['call snake case get user name and return', 'call get_user_name and return'],
+    ['the class is pascal case http client', 'the class is HttpClient'],
+    ['set constant case max retries to three', 'set MAX_RETRIES to three'],
+    ['use kebab case main nav bar.', 'use main-nav-bar.'],
+    ['branch alpha bravo charlie', 'branch abc'],
+    ['tag capital victor two', 'tag V two'],
+    ['call foo open paren bar close paren', 'call foo(bar)'],
+    ['email me at sign example dot com', 'email me @example.com'],
+    ['the file tilde slash dot config', 'the file ~/.config'],
+  ])('%p -> %p', (spoken, expected) => {
+    expect(normalizeDictation(spoken)).toBe(expected);
+  });
+
+  test.each([
+    'I think a delta of five percent is fine. Echo that to the team, please.',
+    'I ran a quick dash to the store and the star player was there.',
+    'We met at the dot com launch party.',
+    'The pipe under the sink is leaking.',
+  ])('leaves ordinary prose alone: %p', (prose) => {
+    expect(normalizeDictation(prose)).toBe(prose);
+  });
+
+  test('does not apply a casing command with nothing to case', () => {
+    expect(normalizeDictation('use camel case.')).toBe('use camel case.');
+    expect(normalizeDictation('camel case the')).toBe('camel case the');
+  });
+
+  test('applies extra rules', () => {
+    const rules: DictationRule[] = [{ kind: 'symbol', phrase: 'arrow', text: '->', join: 'none' }, ...DEFAULT_DICTATION_RULES];
+    expect(normalizeDictation('a arrow b', rules)).toBe('a -> b');
+  });
+});
+
+describe('validateDictationRules', () => {
+  test('accepts each kind of rule', () => {
+    expect(validateDictationRules([
+      { kind: 'symbol', phrase: 'arrow', text: '->', join: 'none' },
+      { kind: 'case', phrase: 'title case', style: 'pascal' },
+      { kind: 'letter', phrase: 'able', letter: 'a' },
+    ])).toEqual([]);
+  });
+
+  test('reports problems with each rule', () => {
+    expect(validateDictationRules({})).toEqual(['Dictation rules file must contain a JSON array of rules']);
+    expect(validateDictationRules([
+      { kind: 'symbol', phrase: 'arrow', join: 'sideways' },
+      { kind: 'case', style: 'camel' },
+      { kind: 'emoji', phrase: 'smile' },
+    ])).toEqual([
+      'Rule "arrow" needs the symbol text',
+      'Rule "arrow" join must be one of: left, right, both, none, path',
+      'Rule #2 is missing a phrase',
+      'Rule "smile" kind must be symbol, case or letter',
+    ]);
+  });
+});
+
+describe('loadDictationRules', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  function writeRules(rules: unknown): string {
+    dir = mkdtempSync(join(tmpdir(), 'callme-dictation-'));
+    const path = join(dir, 'rules.json');
+    writeFileSync(path, JSON.stringify(rules));
+    return path;
+  }
+
+  test('uses the built-in rules without a file', () => {
+    expect(loadDictationRules(undefined)).toBe(DEFAULT_DICTATION_RULES);
+  });
+
+  test('puts a team\'s rules first and lets them replace built-in phrases', () => {
+    const rules = loadDictationRules(writeRules([
+      { kind: 'symbol', phrase: 'Dash', text: '—', join: 'none' },
+      { kind: 'symbol', phrase: 'fat arrow', text: '=>', join: 'none' },
+    ]));
+
+    expect(normalizeDictation('x fat arrow y dash z', rules)).toBe('x => y — z');
+    expect(rules.filter((rule) => rule.phrase.toLowerCase() === 'dash')).toHaveLength(1);
+  });
+
+  test('rejects invalid files', () => {
+    expect(() => loadDictationRules(writeRules([{ kind: 'case', phrase: 'x', style: 'wavy' }]))).toThrow('Invalid dictation rules file');
+  });
+});
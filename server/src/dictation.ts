@@ -0,0 +1,363 @@
+/**
+ * Developer Dictation
+ *
+ * Speech-to-text returns code as prose: "git push dash dash force",
+ * "camel case user id", "slash src slash index dot ts", "n p m run build".
+ * normalizeDictation() turns spoken symbols, casing commands and spelled-out
+ * letters (single letters or the NATO alphabet) back into literal text, using
+ * a rule table that teams can extend with a JSON file (CALLME_DICTATION_RULES_FILE).
+ */
+
+import { readFileSync } from 'fs';
+
+/**
+ * Which neighbours a symbol sticks to: "dash" joins the next word (--force),
+ * "dot" joins both (index.ts), "comma" joins the previous word. "slash" is a path
+ * separator: it joins both inside a path (src/index) but only the next word when
+ * it starts one (open /src)
+ */
+export type SymbolJoin = 'left' | 'right' | 'both' | 'none' | 'path';
+
+export type CaseStyle = 'camel' | 'pascal' | 'snake' | 'kebab' | 'constant';
+
+export type DictationRule =
+  /**
+   * A spoken word or phrase for a symbol, e.g. "open paren" -> "(". A codeOnly symbol is
+   * also an everyday word ("a quick dash"), so it's only replaced next to other dictated
+   * code or after "literal"
+   */
+  | { kind: 'symbol'; phrase: string; text: string; join: SymbolJoin; codeOnly?: boolean }
+  /** A casing command applied to the words that follow, e.g. "camel case user id" -> "userId" */
+  | { kind: 'case'; phrase: string; style: CaseStyle }
+  /** A spelling-alphabet word for a letter, e.g. "bravo" -> "b" */
+  | { kind: 'letter'; phrase: string; letter: string };
+
+const SYMBOL_JOINS: readonly SymbolJoin[] = ['left', 'right', 'both', 'none', 'path'];
+const CASE_STYLES: readonly CaseStyle[] = ['camel', 'pascal', 'snake', 'kebab', 'constant'];
+
+const symbol = (phrase: string, text: string, join: SymbolJoin): DictationRule => ({ kind: 'symbol', phrase, text, join });
+const codeSymbol = (phrase: string, text: string, join: SymbolJoin): DictationRule => ({ kind: 'symbol', phrase, text, join, codeOnly: true });
+const casing = (phrase: string, style: CaseStyle): DictationRule => ({ kind: 'case', phrase, style });
+
+const NATO_ALPHABET = [
+  'alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot', 'golf', 'hotel', 'india', 'juliet', 'kilo', 'lima', 'mike',
+  'november', 'oscar', 'papa', 'quebec', 'romeo', 'sierra', 'tango', 'uniform', 'victor', 'whiskey', 'xray', 'yankee', 'zulu',
+];
+
+export const DEFAULT_DICTATION_RULES: DictationRule[] = [
+  codeSymbol('dash', '-', 'right'),
+  symbol('hyphen', '-', 'right'),
+  codeSymbol('dot', '.', 'both'),
+  symbol('slash', '/', 'path'),
+  symbol('forward slash', '/', 'path'),
+  symbol('backslash', '\\', 'path'),
+  symbol('back slash', '\\', 'path'),
+  symbol('underscore', '_', 'both'),
+  symbol('equals', '=', 'both'),
+  symbol('equal sign', '=', 'both'),
+  symbol('colon', ':', 'left'),
+  symbol('semicolon', ';', 'left'),
+  symbol('comma', ',', 'left'),
+  symbol('at sign', '@', 'right'),
+  symbol('hash sign', '#', 'right'),
+  symbol('dollar sign', '$', 'right'),
+  symbol('tilde', '~', 'right'),
+  symbol('open paren', '(', 'both'),
+  symbol('close paren', ')', 'left'),
+  symbol('open bracket', '[', 'both'),
+  symbol('close bracket', ']', 'left'),
+  symbol('open brace', '{', 'right'),
+  symbol('close brace', '}', 'left'),
+  codeSymbol('star', '*', 'none'),
+  symbol('asterisk', '*', 'none'),
+  codeSymbol('pipe', '|', 'none'),
+  symbol('ampersand', '&', 'none'),
+  symbol('new line', '\n', 'both'),
+  casing('camel case', 'camel'),
+  casing('pascal case', 'pascal'),
+  casing('snake case', 'snake'),
+  casing('kebab case', 'kebab'),
+  casing('constant case', 'constant'),
+  casing('screaming snake case', 'constant'),
+  ...NATO_ALPHABET.map((phrase): DictationRule => ({ kind: 'letter', phrase, letter: phrase[0] })),
+  { kind: 'letter', phrase: 'alfa', letter: 'a' },
+  { kind: 'letter', phrase: 'juliett', letter: 'j' },
+  { kind: 'letter', phrase: 'x ray', letter: 'x' },
+];
+
+/** Words that end a casing command, so "camel case user id to the config" stops at "to" */
+const CASE_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'for', 'from', 'in', 'into', 'is', 'of', 'on', 'or', 'the', 'then', 'to', 'with',
+]);
+
+/** Said before a spelled letter to capitalize it, e.g. "capital bravo" */
+const CAPITAL_WORDS = new Set(['capital', 'cap', 'uppercase']);
+
+/** Said before a symbol to always write it out, e.g. "literal dash" */
+const LITERAL_WORD = 'literal';
+
+interface Word {
+  /** As transcribed, without trailing punctuation */
+  text: string;
+  /** Lowercase letters, digits and apostrophes, for matching */
+  key: string;
+  /** Punctuation the transcriber put after the word */
+  trailing: string;
+}
+
+interface Piece {
+  text: string;
+  joinLeft: boolean;
+  joinRight: boolean;
+  /** Written out from dictation (a symbol, casing command or spelled letters) rather than an ordinary word */
+  dictated: boolean;
+  /** A path separator, which only joins the previous piece inside code */
+  path?: boolean;
+  /** The words of a codeOnly symbol as spoken, until it's known to be code */
+  spoken?: string;
+}
+
+function splitWords(transcript: string): Word[] {
+  return transcript.split(/\s+/).filter(Boolean).map((token) => {
+    const [, text, trailing] = /^(.*?)([.,;:!?]*)$/.exec(token)!;
+    return { text: text || token, key: (text || token).toLowerCase().replace(/[^a-z0-9']/g, ''), trailing: text ? trailing : '' };
+  });
+}
+
+function applyCase(words: string[], style: CaseStyle): string {
+  const lower = words.map((word) => word.toLowerCase());
+  const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+  switch (style) {
+    case 'camel':
+      return lower.map((word, i) => (i === 0 ? word : capitalize(word))).join('');
+    case 'pascal':
+      return lower.map(capitalize).join('');
+    case 'snake':
+      return lower.join('_');
+    case 'kebab':
+      return lower.join('-');
+    case 'constant':
+      return lower.join('_').toUpperCase();
+  }
+}
+
+class Normalizer {
+  private pieces: Piece[] = [];
+  private readonly rules: Array<DictationRule & { keys: string[] }>;
+
+  constructor(private readonly words: Word[], rules: DictationRule[]) {
+    // Longest phrases first, so "forward slash" wins over "slash"
+    this.rules = rules
+      .map((rule) => ({ ...rule, keys: rule.phrase.toLowerCase().split(/\s+/).filter(Boolean) }))
+      .filter((rule) => rule.keys.length > 0)
+      .sort((a, b) => b.keys.length - a.keys.length);
+  }
+
+  run(): string {
+    let i = 0;
+    while (i < this.words.length) {
+      i = this.step(i);
+    }
+    this.resolveCodeOnly();
+
+    let text = '';
+    let inCode = false;
+    this.pieces.forEach((piece, index) => {
+      const previous = this.pieces[index - 1];
+      const glued = !previous || previous.joinRight || (piece.path ? inCode : piece.joinLeft);
+      text += (glued ? '' : ' ') + piece.text;
+      inCode = piece.dictated || (glued && inCode);
+    });
+    return text;
+  }
+
+  /**
+   * Keep codeOnly symbols next to other dictated code, directly ("dash dash") or across one
+   * word ("at sign example dot com"), and put the rest back as spoken ("a quick dash")
+   */
+  private resolveCodeOnly(): void {
+    const isCode = (piece: Piece | undefined) => !!piece?.dictated && piece.spoken === undefined;
+    const nextToCode = (index: number) => [-1, 1].some((side) => {
+      const neighbour = this.pieces[index + side];
+      return neighbour?.dictated || (neighbour && isCode(this.pieces[index + 2 * side]));
+    });
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      this.pieces.forEach((piece, index) => {
+        if (piece.spoken !== undefined && nextToCode(index)) {
+          delete piece.spoken;
+          changed = true;
+        }
+      });
+    }
+
+    this.pieces = this.pieces.map((piece) => piece.spoken === undefined
+      ? piece
+      : { text: piece.spoken, joinLeft: false, joinRight: false, dictated: false });
+  }
+
+  /**
+   * Rule whose phrase starts at word i (not spanning the transcriber's punctuation)
+   */
+  private match(i: number): (DictationRule & { keys: string[] }) | null {
+    return this.rules.find((rule) => rule.keys.every((key, k) => {
+      const word = this.words[i + k];
+      return word?.key === key && (k === rule.keys.length - 1 || !word.trailing);
+    })) ?? null;
+  }
+
+  /**
+   * The spelled letter at word i ("n", "bravo", "capital bravo"), or null if it isn't one
+   * @returns The letter, how many words spell it, and whether it came from the spelling alphabet
+   */
+  private letterAt(i: number): { letter: string; length: number; alphabet: boolean } | null {
+    const word = this.words[i];
+    if (!word) return null;
+    if (CAPITAL_WORDS.has(word.key) && !word.trailing) {
+      const next = this.letterAt(i + 1);
+      return next && { ...next, letter: next.letter.toUpperCase(), length: next.length + 1 };
+    }
+    if (/^[a-z]$/.test(word.key)) return { letter: word.key, length: 1, alphabet: false };
+    const rule = this.match(i);
+    return rule?.kind === 'letter' ? { letter: rule.letter, length: rule.keys.length, alphabet: true } : null;
+  }
+
+  private step(i: number): number {
+    // Two or more spelled letters in a row form a word: "n p m" -> "npm". Bare letters and
+    // alphabet words aren't mixed, so "a delta" stays prose
+    const letters: string[] = [];
+    const first = this.letterAt(i);
+    let j = i;
+    for (let letter = first; letter && letter.alphabet === first!.alphabet; letter = this.letterAt(j)) {
+      letters.push(letter.letter);
+      j += letter.length;
+      if (/[.!?]/.test(this.words[j - 1].trailing)) break;
+    }
+    if (letters.length >= 2 || (letters.length === 1 && letters[0] !== letters[0].toLowerCase())) {
+      this.push(letters.join('') + this.words[j - 1].trailing.replace(/,/g, ''), true);
+      return j;
+    }
+
+    if (this.words[i].key === LITERAL_WORD && !this.words[i].trailing) {
+      const next = this.match(i + 1);
+      if (next?.kind === 'symbol') return this.pushSymbol(i + 1, next, true);
+    }
+
+    const rule = this.match(i);
+    const last = rule && this.words[i + rule.keys.length - 1];
+    if (rule?.kind === 'symbol') {
+      return this.pushSymbol(i, rule, !rule.codeOnly);
+    }
+
+    if (rule?.kind === 'case' && !last!.trailing) {
+      const words: Word[] = [];
+      let k = i + rule.keys.length;
+      while (k < this.words.length && !CASE_STOP_WORDS.has(this.words[k].key) && !this.match(k)) {
+        words.push(this.words[k++]);
+        if (words[words.length - 1].trailing) break;
+      }
+      if (words.length > 0) {
+        this.push(applyCase(words.map((word) => word.text), rule.style) + words[words.length - 1].trailing, true);
+        return k;
+      }
+    }
+
+    const word = this.words[i];
+    this.push(word.text + word.trailing, false);
+    return i + 1;
+  }
+
+  /**
+   * @param certain Whether it's code for sure, or a codeOnly symbol that may turn out to be prose
+   * @returns Index of the word after the symbol
+   */
+  private pushSymbol(i: number, rule: DictationRule & { kind: 'symbol'; keys: string[] }, certain: boolean): number {
+    const spoken = this.words.slice(i, i + rule.keys.length);
+    const last = spoken[spoken.length - 1];
+    this.pieces.push({
+      text: rule.text + last.trailing,
+      joinLeft: rule.join === 'left' || rule.join === 'both' || rule.join === 'path',
+      joinRight: (rule.join === 'right' || rule.join === 'both' || rule.join === 'path') && !last.trailing,
+      dictated: true,
+      path: rule.join === 'path',
+      spoken: certain ? undefined : spoken.map((word) => word.text + word.trailing).join(' '),
+    });
+    return i + rule.keys.length;
+  }
+
+  private push(text: string, dictated: boolean): void {
+    this.pieces.push({ text, joinLeft: false, joinRight: false, dictated });
+  }
+}
+
+/**
+ * Turn dictated code terms into literal text, e.g.
+ * "git push dash dash force" -> "git push --force",
+ * "open slash src slash index dot ts" -> "open /src/index.ts"
+ */
+export function normalizeDictation(transcript: string, rules: DictationRule[] = DEFAULT_DICTATION_RULES): string {
+  return new Normalizer(splitWords(transcript), rules).run();
+}
+
+/**
+ * Check parsed dictation rules file entries
+ * @returns List of problems (empty if the rules are valid)
+ */
+export function validateDictationRules(rules: unknown): string[] {
+  if (!Array.isArray(rules)) {
+    return ['Dictation rules file must contain a JSON array of rules'];
+  }
+
+  const errors: string[] = [];
+  rules.forEach((entry, i) => {
+    const rule = entry as Partial<Record<string, unknown>>;
+    const label = typeof rule?.phrase === 'string' && rule.phrase.trim() ? `"${rule.phrase}"` : `#${i + 1}`;
+
+    if (typeof rule?.phrase !== 'string' || !rule.phrase.trim()) {
+      errors.push(`Rule ${label} is missing a phrase`);
+    }
+    switch (rule?.kind) {
+      case 'symbol':
+        if (typeof rule.text !== 'string') errors.push(`Rule ${label} needs the symbol text`);
+        if (!SYMBOL_JOINS.includes(rule.join as SymbolJoin)) errors.push(`Rule ${label} join must be one of: ${SYMBOL_JOINS.join(', ')}`);
+        if (rule.codeOnly !== undefined && typeof rule.codeOnly !== 'boolean') errors.push(`Rule ${label} codeOnly must be true or false`);
+        break;
+      case 'case':
+        if (!CASE_STYLES.includes(rule.style as CaseStyle)) errors.push(`Rule ${label} style must be one of: ${CASE_STYLES.join(', ')}`);
+        break;
+      case 'letter':
+        if (typeof rule.letter !== 'string' || rule.letter.length !== 1) errors.push(`Rule ${label} needs a single letter`);
+        break;
+      default:
+        errors.push(`Rule ${label} kind must be symbol, case or letter`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Load the dictation rules: the built-in table plus a team's own rules, which win on the same phrase
+ * @param path Rules file (default: CALLME_DICTATION_RULES_FILE, or no file)
+ * @throws Error if the file can't be read or contains invalid rules
+ */
+export function loadDictationRules(path = process.env.CALLME_DICTATION_RULES_FILE): DictationRule[] {
+  if (!path) return DEFAULT_DICTATION_RULES;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`Failed to read dictation rules file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateDictationRules(parsed);
+  if (errors.length > 0) {
+    throw new Error(`Invalid dictation rules file ${path}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  const custom = parsed as DictationRule[];
+  const overridden = new Set(custom.map((rule) => rule.phrase.trim().toLowerCase()));
+  return [...custom, ...DEFAULT_DICTATION_RULES.filter((rule) => !overridden.has(rule.phrase))];
+}
@@ -9,37 +9,75 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
 import { TelegramChatManager, loadTelegramConfig } from './telegram-chat.js';
+import { openConversationStore, type ConversationStore } from './conversation-store.js';
+import { CONVERSATION_TOOLS, callConversationTool } from './conversation-tools.js';
+import {
+  CONVERSATION_RESOURCE_TEMPLATES,
+  listConversationResources,
+  readConversationResource,
+} from './conversation-resources.js';
+import { log } from './mcp-logging.js';
+
+/** outputSchema for tools that wait for a reply in a chat */
+const CHAT_RESPONSE_OUTPUT_SCHEMA = {
+  type: 'object' as const,
+  properties: {
+    chatId: { type: 'string' },
+    response: { type: 'string', description: 'What the user replied' },
+    elapsedSeconds: { type: 'number', description: 'How long this tool call took, in seconds' },
+  },
+  required: ['chatId', 'response', 'elapsedSeconds'],
+};
 
 async function main() {
   let config;
   try {
     config = loadTelegramConfig();
   } catch (error) {
-    console.error('Configuration error:', error instanceof Error ? error.message : error);
+    log.error('Configuration error:', error instanceof Error ? error.message : error);
     process.exit(1);
   }
 
-  const chatManager = new TelegramChatManager(config);
+  let store: ConversationStore | null = null;
+  try {
+    store = openConversationStore();
+  } catch (error) {
+    log.warn('Cannot open CALLME_HISTORY_DB, history disabled:', error instanceof Error ? error.message : error);
+  }
+
+  const chatManager = new TelegramChatManager(config, store);
 
   try {
     await chatManager.initialize();
   } catch (error) {
-    console.error('Failed to initialize Telegram bot:', error instanceof Error ? error.message : error);
+    log.error('Failed to initialize Telegram bot:', error instanceof Error ? error.message : error);
     process.exit(1);
   }
 
   const mcpServer = new Server(
     { name: 'callme-telegram', version: '3.1.0' },
-    { capabilities: { tools: {}, logging: {} } },
+    { capabilities: { tools: {}, resources: { listChanged: true }, logging: {} } },
   );
 
+  // Let clients refresh their resource list when a chat's transcript is complete
+  store?.onConversationEnded(() => {
+    mcpServer.sendResourceListChanged().catch(() => {});
+  });
+
   mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
     const currentVerbose = chatManager.isVerboseMode();
     const currentListenEnabled = chatManager.isListenModeEnabled();
 
-    const tools: Array<{ name: string; description: string; inputSchema: object }> = [
+    const tools: Tool[] = [
       {
         name: 'broadcast',
         description: currentVerbose
@@ -55,6 +93,12 @@ async function main() {
           },
           required: ['message'],
         },
+        outputSchema: {
+          type: 'object',
+          properties: { sent: { type: 'boolean' } },
+          required: ['sent'],
+        },
+        annotations: { title: 'Broadcast to Telegram', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
       },
       {
         name: 'send_message',
@@ -69,6 +113,8 @@ async function main() {
           },
           required: ['message'],
         },
+        outputSchema: CHAT_RESPONSE_OUTPUT_SCHEMA,
+        annotations: { title: 'Message the user', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
       },
       {
         name: 'continue_chat',
@@ -81,6 +127,8 @@ async function main() {
           },
           required: ['chat_id', 'message'],
         },
+        outputSchema: CHAT_RESPONSE_OUTPUT_SCHEMA,
+        annotations: { title: 'Continue a chat', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
       },
       {
         name: 'notify_user',
@@ -93,6 +141,12 @@ async function main() {
           },
           required: ['chat_id', 'message'],
         },
+        outputSchema: {
+          type: 'object',
+          properties: { chatId: { type: 'string' }, sent: { type: 'boolean' } },
+          required: ['chatId', 'sent'],
+        },
+        annotations: { title: 'Notify in a chat', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
       },
       {
         name: 'end_chat',
@@ -105,7 +159,17 @@ async function main() {
           },
           required: ['chat_id', 'message'],
         },
+        outputSchema: {
+          type: 'object',
+          properties: {
+            chatId: { type: 'string' },
+            durationSeconds: { type: 'number', description: 'Length of the chat' },
+          },
+          required: ['chatId', 'durationSeconds'],
+        },
+        annotations: { title: 'End a chat', readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
       },
+      ...CONVERSATION_TOOLS,
     ];
 
     if (currentListenEnabled) {
@@ -122,6 +186,15 @@ async function main() {
           },
           required: [],
         },
+        outputSchema: {
+          type: 'object',
+          properties: {
+            command: { type: 'string', description: 'The user\'s message' },
+            elapsedSeconds: { type: 'number', description: 'How long this tool call took, in seconds' },
+          },
+          required: ['command', 'elapsedSeconds'],
+        },
+        annotations: { title: 'Listen for Telegram commands', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
       });
     }
 
@@ -143,11 +216,14 @@ async function main() {
       }
     };
 
+    const startTime = Date.now();
+    const elapsedSeconds = () => Math.round((Date.now() - startTime) / 100) / 10;
+
     try {
       if (request.params.name === 'broadcast') {
         const { message } = request.params.arguments as { message: string };
         await chatManager.broadcast(message);
-        return { content: [{ type: 'text', text: 'Message sent.' }] };
+        return { content: [{ type: 'text', text: 'Message sent.' }], structuredContent: { sent: true } };
       }
 
       if (request.params.name === 'send_message') {
@@ -156,7 +232,7 @@ async function main() {
         await log('info', 'Sending message to Telegram...');
         await sendProgress(1, 2, 'Sending message...');
 
-        const result = await chatManager.initiateChat(message);
+        const result = await chatManager.initiateChat(message, extra.signal);
 
         await log('info', 'User responded on Telegram');
         await sendProgress(2, 2, 'Response received');
@@ -166,6 +242,7 @@ async function main() {
             type: 'text',
             text: `Message sent successfully.\n\nChat ID: ${result.chatId}\n\nUser's response:\n${result.response}\n\nUse continue_chat to ask follow-ups or end_chat to close the conversation.`,
           }],
+          structuredContent: { chatId: result.chatId, response: result.response, elapsedSeconds: elapsedSeconds() },
         };
       }
 
@@ -175,18 +252,24 @@ async function main() {
         await log('info', 'Sending follow-up message...');
         await sendProgress(1, 2, 'Sending message...');
 
-        const response = await chatManager.continueChat(chat_id, message);
+        const response = await chatManager.continueChat(chat_id, message, extra.signal);
 
         await log('info', 'User responded');
         await sendProgress(2, 2, 'Response received');
 
-        return { content: [{ type: 'text', text: `User's response:\n${response}` }] };
+        return {
+          content: [{ type: 'text', text: `User's response:\n${response}` }],
+          structuredContent: { chatId: chat_id, response, elapsedSeconds: elapsedSeconds() },
+        };
       }
 
       if (request.params.name === 'notify_user') {
         const { chat_id, message } = request.params.arguments as { chat_id: string; message: string };
         await chatManager.sendMessage(chat_id, message);
-        return { content: [{ type: 'text', text: `Message sent: "${message}"` }] };
+        return {
+          content: [{ type: 'text', text: `Message sent: "${message}"` }],
+          structuredContent: { chatId: chat_id, sent: true },
+        };
       }
 
       if (request.params.name === 'end_chat') {
@@ -194,21 +277,28 @@ async function main() {
         const { durationSeconds } = await chatManager.endChat(chat_id, message);
 
         await log('info', `Chat ended after ${durationSeconds}s`);
-        return { content: [{ type: 'text', text: `Chat ended. Duration: ${durationSeconds}s` }] };
+        return {
+          content: [{ type: 'text', text: `Chat ended. Duration: ${durationSeconds}s` }],
+          structuredContent: { chatId: chat_id, durationSeconds },
+        };
       }
 
       if (request.params.name === 'listen_for_commands') {
         const { prompt } = request.params.arguments as { prompt?: string };
 
         await log('info', 'Entering listen mode, waiting for Telegram command...');
-        const command = await chatManager.listenForCommand(prompt);
+        const command = await chatManager.listenForCommand(prompt, extra.signal);
 
         await log('info', 'Command received from Telegram');
         return {
           content: [{ type: 'text', text: `User command received:\n\n${command}\n\nProcess this command, then call listen_for_commands again to wait for the next command. Use broadcast to send progress updates.` }],
+          structuredContent: { command, elapsedSeconds: elapsedSeconds() },
         };
       }
 
+      const history = callConversationTool(store, request.params.name, request.params.arguments);
+      if (history !== null) return history;
+
       throw new Error(`Unknown tool: ${request.params.name}`);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -220,6 +310,19 @@ async function main() {
     }
   });
 
+  // Transcripts of past and ongoing conversations
+  mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listConversationResources(store) };
+  });
+
+  mcpServer.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: CONVERSATION_RESOURCE_TEMPLATES };
+  });
+
+  mcpServer.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readConversationResource(store, request.params.uri);
+  });
+
   const transport = new StdioServerTransport();
   await mcpServer.connect(transport);
 
@@ -241,6 +344,6 @@ async function main() {
 }
 
 main().catch((error) => {
-  console.error('Fatal error:', error);
+  log.error('Fatal error:', error);
   process.exit(1);
 });
@@ -9,16 +9,160 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { CallManager, loadServerConfig } from './phone-call.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  CallManager,
+  loadServerConfig,
+  type Interruption,
+  type ProgressListener,
+  type SpeechSegment,
+  type VoicemailAction,
+} from './phone-call.js';
+import { forwardConsoleToMcp, log } from './mcp-logging.js';
+import { SEMANTIC_VAD_EAGERNESS, TURN_STRATEGY_TYPES, type TurnStrategy } from './turn-strategy.js';
+import { isWithinAllowedHours, formatAllowedHours } from './contacts.js';
+import { CONVERSATION_TOOLS, callConversationTool } from './conversation-tools.js';
+import {
+  CONVERSATION_RESOURCE_TEMPLATES,
+  listConversationResources,
+  readConversationResource,
+} from './conversation-resources.js';
+import { CallError, CALL_OUTCOME_DESCRIPTIONS, isRetryableOutcome, type CallOutcomeCode } from './call-outcome.js';
 import { loadTunnelConfig, createTunnelProvider, validateTunnelConfig, type TunnelProvider } from './tunnels/index.js';
 
+/**
+ * Describe a barge-in for the tool result, so Claude knows its message was cut short
+ */
+function formatInterruption(interruption: Interruption | null): string {
+  if (!interruption) return '';
+  const heard = interruption.heardText
+    ? `They probably heard only: "${interruption.heardText}..."`
+    : 'They probably heard none of it.';
+  return `\n\nNote: the user interrupted your message after about ${interruption.playedSeconds}s. ${heard}`;
+}
+
+/**
+ * Structured form of a barge-in, for tool results
+ */
+function interruptionOutput(interruption: Interruption | null) {
+  return interruption
+    ? { interrupted: true, heardText: interruption.heardText, playedSeconds: interruption.playedSeconds }
+    : { interrupted: false };
+}
+
+/** outputSchema properties describing a barge-in, shared by the tools that speak */
+const INTERRUPTION_OUTPUT_PROPERTIES = {
+  interrupted: { type: 'boolean', description: 'True if the user talked over your message' },
+  heardText: { type: 'string', description: 'If interrupted: rough estimate of the part of your message the user heard' },
+  playedSeconds: { type: 'number', description: 'If interrupted: seconds of your message played before it was stopped' },
+};
+
+/**
+ * List each speech segment of a reply with its timestamps, when the tool call asked for them
+ */
+function formatPartialTranscripts(segments: SpeechSegment[], requested: boolean | undefined): string {
+  if (!requested || segments.length === 0) return '';
+  return `\n\nPartial transcripts (seconds into the call):\n${formatSegments(segments)}`;
+}
+
+function formatSegments(segments: SpeechSegment[]): string {
+  return segments.map((segment) => {
+    const end = segment.endSeconds !== null ? `${segment.endSeconds}s` : 'still talking';
+    const partial = segment.final ? '' : ' (partial)';
+    return `- [${segment.startSeconds}s - ${end}]${partial} ${segment.text}`;
+  }).join('\n');
+}
+
+/** outputSchema for one stretch of speech */
+const SPEECH_SEGMENT_SCHEMA = {
+  type: 'object',
+  properties: {
+    startSeconds: { type: 'number', description: 'Seconds from the start of the call' },
+    endSeconds: { type: ['number', 'null'], description: 'Seconds from the start of the call, null if the user was still talking' },
+    text: { type: 'string' },
+    final: { type: 'boolean', description: 'False if only a partial transcript was available' },
+  },
+  required: ['startSeconds', 'endSeconds', 'text', 'final'],
+};
+
+/**
+ * Point out the parts of a reply the user said before Claude was listening
+ */
+function formatSaidWhileBusy(saidWhileBusy: string[] | undefined): string {
+  if (!saidWhileBusy?.length) return '';
+  const lines = saidWhileBusy.map((text) => `- "${text}"`);
+  return `\n\nSaid while you were thinking or speaking (already part of the response above):\n${lines.join('\n')}`;
+}
+
+/** outputSchema property for speech the user said while Claude was busy */
+const SAID_WHILE_BUSY_OUTPUT_PROPERTY = {
+  saidWhileBusy: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'Parts of the response the user said while you were thinking or speaking, oldest first',
+  },
+};
+
+/**
+ * Show the dictation-normalized transcript when it differs from what was heard
+ */
+function formatNormalized(normalized: string | null, raw: string | undefined): string {
+  if (normalized === null || normalized === raw) return '';
+  return `\n\nAs literal text (spoken code terms converted):\n${normalized}`;
+}
+
+/** outputSchema property for the dictation-normalized response */
+const NORMALIZED_OUTPUT_PROPERTY = {
+  normalizedResponse: {
+    type: 'string',
+    description: 'If dictation normalization is on: the response with spoken code terms as literal text, e.g. "dash dash force" as "--force"',
+  },
+};
+
+/** inputSchema property for tools that can return the speech segments of a reply */
+const PARTIAL_TRANSCRIPTS_INPUT_PROPERTY = {
+  partial_transcripts: {
+    type: 'boolean',
+    description: 'Also return each stretch of speech in the reply with timestamps, e.g. to see where the user paused (default: false)',
+  },
+};
+
+/** outputSchema property for the speech segments of a reply */
+const PARTIAL_TRANSCRIPTS_OUTPUT_PROPERTY = {
+  partialTranscripts: {
+    type: 'array',
+    description: 'If partial_transcripts was set: each stretch of speech in the reply',
+    items: SPEECH_SEGMENT_SCHEMA,
+  },
+};
+
+/** outputSchema property for how long a tool call took */
+const ELAPSED_OUTPUT_PROPERTY = {
+  elapsedSeconds: { type: 'number', description: 'How long this tool call took, in seconds' },
+};
+
+/**
+ * Tell Claude whether trying again makes sense for an outcome
+ */
+function formatRetryHint(code: CallOutcomeCode): string {
+  return isRetryableOutcome(code)
+    ? 'This may be temporary; you can try again.'
+    : 'This was the user\'s choice; do not call back unless they ask.';
+}
+
 async function main() {
   // Create stdio MCP server FIRST so Claude Code gets the handshake quickly
   const mcpServer = new Server(
     { name: 'callme', version: '3.0.0' },
-    { capabilities: { tools: {} } }
+    { capabilities: { tools: {}, resources: { listChanged: true }, logging: {} } }
   );
+  forwardConsoleToMcp(mcpServer, 'callme');
 
   // Variables for deferred initialization
   let callManager: CallManager | null = null;
@@ -59,6 +203,11 @@ async function main() {
     callManager = new CallManager(serverConfig);
     callManager.startServer();
 
+    // Let clients refresh their resource list when a call's transcript is complete
+    serverConfig.conversationStore?.onConversationEnded(() => {
+      mcpServer.sendResourceListChanged().catch(() => {});
+    });
+
     console.error('');
     console.error('CallMe MCP server ready');
     console.error(`Phone: ${serverConfig.phoneNumber} -> ${serverConfig.userPhoneNumber}`);
@@ -71,7 +220,7 @@ async function main() {
   // Handle init errors (log but don't crash - tools will report the error)
   initPromise.catch((error) => {
     initError = error instanceof Error ? error.message : String(error);
-    console.error('Initialization error:', initError);
+    log.error('Initialization error:', initError);
   });
 
   // List available tools
@@ -80,7 +229,7 @@ async function main() {
       tools: [
         {
           name: 'initiate_call',
-          description: 'Start a phone call with the user. Use when you need voice input, want to report completed work, or need real-time discussion.',
+          description: 'Start a phone call with the user. Use when you need voice input, want to report completed work, or need real-time discussion. Pass contact to call someone else from the contacts directory.',
           inputSchema: {
             type: 'object',
             properties: {
@@ -88,9 +237,110 @@ async function main() {
                 type: 'string',
                 description: 'What you want to say to the user. Be natural and conversational.',
               },
+              contact: {
+                type: 'string',
+                description: 'Name of the person to call, from list_contacts (default: the user)',
+              },
+              voicemail: {
+                type: 'string',
+                enum: ['leave_message', 'hang_up'],
+                description: 'What to do if voicemail answers: leave a message after the beep (default) or hang up silently',
+              },
+              voicemail_message: {
+                type: 'string',
+                description: 'Short message to leave on voicemail instead of the full message',
+              },
+              ...PARTIAL_TRANSCRIPTS_INPUT_PROPERTY,
             },
             required: ['message'],
           },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              status: {
+                type: 'string',
+                enum: ['connected', 'voicemail', 'unreachable'],
+                description: 'connected: the call is live, continue with callId. voicemail/unreachable: the call is over',
+              },
+              callId: { type: 'string', description: 'The call ID (connected and voicemail only)' },
+              response: { type: 'string', description: 'What the user said (connected only)' },
+              ...INTERRUPTION_OUTPUT_PROPERTIES,
+              voicemail: { type: 'string', enum: ['left_message', 'hung_up'], description: 'What happened at voicemail' },
+              durationSeconds: { type: 'number', description: 'Length of the voicemail call' },
+              outcome: { type: 'string', enum: Object.keys(CALL_OUTCOME_DESCRIPTIONS), description: 'Why the call did not connect (unreachable only)' },
+              retryable: { type: 'boolean', description: 'Whether calling again may succeed (unreachable only)' },
+              attempts: { type: 'number', description: 'Dial attempts made (unreachable only)' },
+              fallbackSent: { type: 'boolean', description: 'Whether the message was sent by text instead (unreachable only)' },
+              ...SAID_WHILE_BUSY_OUTPUT_PROPERTY,
+              ...NORMALIZED_OUTPUT_PROPERTY,
+              ...PARTIAL_TRANSCRIPTS_OUTPUT_PROPERTY,
+              ...ELAPSED_OUTPUT_PROPERTY,
+            },
+            required: ['status', 'elapsedSeconds'],
+          },
+          annotations: { title: 'Call the user', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+        },
+        {
+          name: 'list_contacts',
+          description: 'List the people you may call with initiate_call, with their allowed calling hours.',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              contacts: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string', description: 'Pass as contact to initiate_call; "me" is the user' },
+                    phoneNumber: { type: 'string' },
+                    allowedHours: { type: 'string', description: 'When they take calls, e.g. "09:00-18:00 Europe/Berlin" or "any time"' },
+                    availableNow: { type: 'boolean' },
+                    voice: { type: 'string' },
+                    language: { type: 'string' },
+                  },
+                  required: ['name', 'phoneNumber', 'allowedHours', 'availableNow'],
+                },
+              },
+            },
+            required: ['contacts'],
+          },
+          annotations: { title: 'List contacts', readOnlyHint: true, openWorldHint: false },
+        },
+        {
+          name: 'wait_for_inbound_call',
+          description: 'Wait for the user to phone in to the CallMe number. Blocks until an allowed caller connects, then returns what they said first. Use when the user wants to start a task by calling you.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              greeting: {
+                type: 'string',
+                description: 'Optional greeting to speak when the user calls in, before listening',
+              },
+              timeout_seconds: {
+                type: 'number',
+                description: 'How long to wait for the call (default: 600)',
+              },
+              ...PARTIAL_TRANSCRIPTS_INPUT_PROPERTY,
+            },
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              callId: { type: 'string' },
+              from: { type: 'string', description: 'Caller phone number' },
+              response: { type: 'string', description: 'What the caller said first' },
+              ...SAID_WHILE_BUSY_OUTPUT_PROPERTY,
+              ...NORMALIZED_OUTPUT_PROPERTY,
+              ...PARTIAL_TRANSCRIPTS_OUTPUT_PROPERTY,
+              ...ELAPSED_OUTPUT_PROPERTY,
+            },
+            required: ['callId', 'from', 'response', 'elapsedSeconds'],
+          },
+          annotations: { title: 'Wait for an inbound call', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
         },
         {
           name: 'continue_call',
@@ -98,11 +348,77 @@ async function main() {
           inputSchema: {
             type: 'object',
             properties: {
-              call_id: { type: 'string', description: 'The call ID from initiate_call' },
+              call_id: { type: 'string', description: 'The call ID from initiate_call or wait_for_inbound_call' },
               message: { type: 'string', description: 'Your follow-up message' },
+              turn_strategy: {
+                type: 'string',
+                enum: [...TURN_STRATEGY_TYPES],
+                description: 'How to tell the user is done, for this and later turns: vad (a pause), semantic_vad (the model judges they finished), keyword (they say an end keyword such as "over"), keypad (they press #). Use keyword or keypad for long dictation',
+              },
+              merge_window_ms: {
+                type: 'number',
+                description: 'vad: keep listening if the user starts talking again within this many ms after a pause',
+              },
+              eagerness: {
+                type: 'string',
+                enum: [...SEMANTIC_VAD_EAGERNESS],
+                description: 'semantic_vad: how quickly to end the turn (low waits longest)',
+              },
+              end_keywords: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'keyword: phrases that end the turn when said last, e.g. ["over", "that\'s it"]',
+              },
+              ...PARTIAL_TRANSCRIPTS_INPUT_PROPERTY,
             },
             required: ['call_id', 'message'],
           },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              callId: { type: 'string' },
+              response: { type: 'string', description: 'What the user said' },
+              ...INTERRUPTION_OUTPUT_PROPERTIES,
+              ...SAID_WHILE_BUSY_OUTPUT_PROPERTY,
+              ...NORMALIZED_OUTPUT_PROPERTY,
+              ...PARTIAL_TRANSCRIPTS_OUTPUT_PROPERTY,
+              ...ELAPSED_OUTPUT_PROPERTY,
+            },
+            required: ['callId', 'response', 'interrupted', 'elapsedSeconds'],
+          },
+          annotations: { title: 'Continue a call', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+        },
+        {
+          name: 'ask_choice',
+          description: 'Ask the user to pick from a short list of options on an active call. Options are read aloud with numbers; the user can press a key or say their answer. More reliable than free speech on noisy lines.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              call_id: { type: 'string', description: 'The call ID from initiate_call or wait_for_inbound_call' },
+              prompt: { type: 'string', description: 'The question to ask before reading the options' },
+              options: {
+                type: 'array',
+                items: { type: 'string' },
+                minItems: 2,
+                maxItems: 9,
+                description: 'Short option labels, read aloud as "Press 1 or say <label>"',
+              },
+            },
+            required: ['call_id', 'prompt', 'options'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              callId: { type: 'string' },
+              index: { type: 'number', description: 'Zero-based index of the chosen option' },
+              label: { type: 'string', description: 'The chosen option' },
+              method: { type: 'string', enum: ['keypad', 'speech'], description: 'How the user answered' },
+              transcript: { type: 'string', description: 'What the user said, when they answered by voice' },
+              ...ELAPSED_OUTPUT_PROPERTY,
+            },
+            required: ['callId', 'index', 'label', 'method', 'elapsedSeconds'],
+          },
+          annotations: { title: 'Ask a multiple-choice question', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
         },
         {
           name: 'speak_to_user',
@@ -110,11 +426,64 @@ async function main() {
           inputSchema: {
             type: 'object',
             properties: {
-              call_id: { type: 'string', description: 'The call ID from initiate_call' },
+              call_id: { type: 'string', description: 'The call ID from initiate_call or wait_for_inbound_call' },
               message: { type: 'string', description: 'What to say to the user' },
             },
             required: ['call_id', 'message'],
           },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              callId: { type: 'string' },
+              ...INTERRUPTION_OUTPUT_PROPERTIES,
+              response: { type: 'string', description: 'What the user said, if they interrupted' },
+              ...SAID_WHILE_BUSY_OUTPUT_PROPERTY,
+              ...NORMALIZED_OUTPUT_PROPERTY,
+              ...ELAPSED_OUTPUT_PROPERTY,
+            },
+            required: ['callId', 'interrupted', 'elapsedSeconds'],
+          },
+          annotations: { title: 'Speak on a call', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
+        },
+        {
+          name: 'record_voice_note',
+          description: 'Record a long dictation on an active call, such as a bug report or design idea. Keeps listening across pauses until the user says "end of note", presses any key, or the time limit is reached. Returns the full transcript with timestamps and saves the audio.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              call_id: { type: 'string', description: 'The call ID from initiate_call or wait_for_inbound_call' },
+              prompt: {
+                type: 'string',
+                description: 'What to say before recording, e.g. "Go ahead with the bug report. Say end of note or press any key when you\'re done."',
+              },
+              max_seconds: { type: 'number', description: 'Stop recording after this long (default: 300, max: 1800)' },
+              stop_phrases: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Phrases that end the note when said last (default: "end of note", "stop recording")',
+              },
+            },
+            required: ['call_id', 'prompt'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              callId: { type: 'string' },
+              transcript: { type: 'string', description: 'Everything the user dictated, without the stop phrase' },
+              normalizedTranscript: { type: 'string', description: 'If dictation normalization is on: the transcript with spoken code terms as literal text' },
+              stoppedBy: {
+                type: 'string',
+                enum: ['phrase', 'keypad', 'time_limit', 'silence', 'hangup'],
+                description: 'What ended the note. After hangup the call is over',
+              },
+              durationSeconds: { type: 'number', description: 'Length of the recorded span' },
+              segments: { type: 'array', items: SPEECH_SEGMENT_SCHEMA, description: 'Each stretch of speech in the note' },
+              audioPath: { type: 'string', description: 'WAV file with the caller\'s audio for the note' },
+              ...ELAPSED_OUTPUT_PROPERTY,
+            },
+            required: ['callId', 'transcript', 'stoppedBy', 'durationSeconds', 'segments', 'elapsedSeconds'],
+          },
+          annotations: { title: 'Record a voice note', readOnlyHint: false, destructiveHint: false, idempotentHint: false, openWorldHint: true },
         },
         {
           name: 'end_call',
@@ -122,18 +491,52 @@ async function main() {
           inputSchema: {
             type: 'object',
             properties: {
-              call_id: { type: 'string', description: 'The call ID from initiate_call' },
+              call_id: { type: 'string', description: 'The call ID from initiate_call or wait_for_inbound_call' },
               message: { type: 'string', description: 'Your closing message (say goodbye!)' },
             },
             required: ['call_id', 'message'],
           },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              callId: { type: 'string' },
+              durationSeconds: { type: 'number', description: 'Length of the call' },
+              recordingPath: { type: 'string', description: 'WAV recording, when recording is enabled' },
+              recordingSeconds: { type: 'number' },
+            },
+            required: ['callId', 'durationSeconds'],
+          },
+          annotations: { title: 'Hang up', readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: true },
         },
+        {
+          name: 'get_call_recording',
+          description: 'Get the WAV recording of a call (caller on the left channel, you on the right). Use to check what was actually said when a transcript looks wrong. Only available when call recording is enabled.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              call_id: { type: 'string', description: 'The call ID from initiate_call or wait_for_inbound_call' },
+            },
+            required: ['call_id'],
+          },
+          outputSchema: {
+            type: 'object',
+            properties: {
+              callId: { type: 'string' },
+              path: { type: 'string', description: 'Absolute path of the WAV file' },
+              durationSeconds: { type: 'number' },
+              inProgress: { type: 'boolean', description: 'True if the call is still going and this is a snapshot' },
+            },
+            required: ['callId', 'path', 'durationSeconds', 'inProgress'],
+          },
+          annotations: { title: 'Get a call recording', readOnlyHint: false, destructiveHint: false, idempotentHint: true, openWorldHint: false },
+        },
+        ...CONVERSATION_TOOLS,
       ],
     };
   });
 
   // Handle tool calls
-  mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
+  mcpServer.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     // Wait for initialization (with timeout)
     if (!isReady && !initError) {
       const timeout = 30000; // 30 second timeout for init
@@ -158,48 +561,302 @@ async function main() {
       };
     }
 
+    const startTime = Date.now();
+    const elapsedSeconds = () => Math.round((Date.now() - startTime) / 100) / 10;
+
+    // Report each call phase as a progress notification, if the client asked for them
+    let progress = 0;
+    const onProgress: ProgressListener = (_phase, message) => {
+      const progressToken = extra._meta?.progressToken;
+      if (progressToken === undefined) return;
+      extra.sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress: ++progress, message },
+      }).catch(() => {});
+    };
+    const callRequest = { signal: extra.signal, onProgress };
+
     try {
       if (request.params.name === 'initiate_call') {
-        const { message } = request.params.arguments as { message: string };
-        const result = await callManager.initiateCall(message);
+        const { message, contact, voicemail, voicemail_message, partial_transcripts } = request.params.arguments as {
+          message: string;
+          contact?: string;
+          voicemail?: VoicemailAction;
+          voicemail_message?: string;
+          partial_transcripts?: boolean;
+        };
+        const result = await callManager.initiateCall(message, {
+          contact,
+          voicemail,
+          voicemailMessage: voicemail_message,
+          ...callRequest,
+        });
+
+        if (result.status === 'unreachable') {
+          const fallback = result.fallbackSent ? ' The message was sent to the user as a text instead.' : '';
+          return {
+            content: [{
+              type: 'text',
+              text: `Call did not connect after ${result.attempts} attempt(s): ${CALL_OUTCOME_DESCRIPTIONS[result.outcome]}.${fallback}\n\nOutcome: ${result.outcome}\n${formatRetryHint(result.outcome)}`,
+            }],
+            structuredContent: {
+              status: result.status,
+              outcome: result.outcome,
+              retryable: isRetryableOutcome(result.outcome),
+              attempts: result.attempts,
+              fallbackSent: result.fallbackSent,
+              elapsedSeconds: elapsedSeconds(),
+            },
+          };
+        }
+
+        if (result.status === 'voicemail') {
+          const what = result.voicemail === 'left_message'
+            ? 'Left a voicemail message and hung up.'
+            : 'Hung up without leaving a message.';
+          return {
+            content: [{
+              type: 'text',
+              text: `Call reached voicemail. ${what} Duration: ${result.durationSeconds}s\n\nThe call has ended; there is no call ID to continue.`,
+            }],
+            structuredContent: {
+              status: result.status,
+              callId: result.callId,
+              voicemail: result.voicemail,
+              durationSeconds: result.durationSeconds,
+              elapsedSeconds: elapsedSeconds(),
+            },
+          };
+        }
+
+        const normalized = callManager.normalizeTranscript(result.response);
+        return {
+          content: [{
+            type: 'text',
+            text: `Call initiated successfully.\n\nCall ID: ${result.callId}\n\nUser's response:\n${result.response}${formatNormalized(normalized, result.response)}${formatSaidWhileBusy(result.saidWhileBusy)}${formatInterruption(result.interruption)}${formatPartialTranscripts(result.segments, partial_transcripts)}\n\nUse continue_call to ask follow-ups or end_call to hang up.`,
+          }],
+          structuredContent: {
+            status: result.status,
+            callId: result.callId,
+            response: result.response,
+            ...interruptionOutput(result.interruption),
+            saidWhileBusy: result.saidWhileBusy,
+            ...(normalized !== null && { normalizedResponse: normalized }),
+            ...(partial_transcripts && { partialTranscripts: result.segments }),
+            elapsedSeconds: elapsedSeconds(),
+          },
+        };
+      }
+
+      if (request.params.name === 'list_contacts') {
+        const contacts = callManager.getContacts().map((contact) => ({
+          name: contact.name,
+          phoneNumber: contact.phoneNumber,
+          allowedHours: formatAllowedHours(contact),
+          availableNow: isWithinAllowedHours(contact),
+          ...(contact.voice && { voice: contact.voice }),
+          ...(contact.language && { language: contact.language }),
+        }));
+        const lines = contacts.map((contact) => {
+          const details = [
+            contact.phoneNumber,
+            `calls ${contact.allowedHours}`,
+            contact.availableNow ? 'available now' : 'not available now',
+          ];
+          if (contact.voice) details.push(`voice: ${contact.voice}`);
+          if (contact.language) details.push(`language: ${contact.language}`);
+          return `- ${contact.name}: ${details.join(', ')}`;
+        });
+
+        return {
+          content: [{ type: 'text', text: `Contacts:\n${lines.join('\n')}\n\n"me" is the user.` }],
+          structuredContent: { contacts },
+        };
+      }
 
+      if (request.params.name === 'wait_for_inbound_call') {
+        const { greeting, timeout_seconds, partial_transcripts } = request.params.arguments as {
+          greeting?: string;
+          timeout_seconds?: number;
+          partial_transcripts?: boolean;
+        };
+        const result = await callManager.waitForInboundCall(
+          greeting,
+          timeout_seconds !== undefined ? timeout_seconds * 1000 : undefined,
+          callRequest
+        );
+
+        const normalized = callManager.normalizeTranscript(result.response);
         return {
           content: [{
             type: 'text',
-            text: `Call initiated successfully.\n\nCall ID: ${result.callId}\n\nUser's response:\n${result.response}\n\nUse continue_call to ask follow-ups or end_call to hang up.`,
+            text: `Inbound call connected from ${result.from}.\n\nCall ID: ${result.callId}\n\nUser's request:\n${result.response}${formatNormalized(normalized, result.response)}${formatSaidWhileBusy(result.saidWhileBusy)}${formatPartialTranscripts(result.segments, partial_transcripts)}\n\nUse continue_call to ask follow-ups or end_call to hang up.`,
           }],
+          structuredContent: {
+            callId: result.callId,
+            from: result.from,
+            response: result.response,
+            saidWhileBusy: result.saidWhileBusy,
+            ...(normalized !== null && { normalizedResponse: normalized }),
+            ...(partial_transcripts && { partialTranscripts: result.segments }),
+            elapsedSeconds: elapsedSeconds(),
+          },
         };
       }
 
       if (request.params.name === 'continue_call') {
-        const { call_id, message } = request.params.arguments as { call_id: string; message: string };
-        const response = await callManager.continueCall(call_id, message);
+        const { call_id, message, partial_transcripts, turn_strategy, merge_window_ms, eagerness, end_keywords } =
+          request.params.arguments as {
+            call_id: string;
+            message: string;
+            partial_transcripts?: boolean;
+            turn_strategy?: TurnStrategy['type'];
+            merge_window_ms?: number;
+            eagerness?: TurnStrategy['eagerness'];
+            end_keywords?: string[];
+          };
+        const turnStrategy: Partial<TurnStrategy> = {
+          ...(turn_strategy !== undefined && { type: turn_strategy }),
+          ...(merge_window_ms !== undefined && { mergeWindowMs: merge_window_ms }),
+          ...(eagerness !== undefined && { eagerness }),
+          ...(end_keywords !== undefined && { endKeywords: end_keywords }),
+        };
+        const { response, interruption, segments, saidWhileBusy } = await callManager.continueCall(call_id, message, {
+          ...callRequest,
+          turnStrategy,
+        });
+        const normalized = callManager.normalizeTranscript(response);
 
         return {
-          content: [{ type: 'text', text: `User's response:\n${response}` }],
+          content: [{
+            type: 'text',
+            text: `User's response:\n${response}${formatNormalized(normalized, response)}${formatSaidWhileBusy(saidWhileBusy)}${formatInterruption(interruption)}${formatPartialTranscripts(segments, partial_transcripts)}`,
+          }],
+          structuredContent: {
+            callId: call_id,
+            response,
+            ...interruptionOutput(interruption),
+            saidWhileBusy,
+            ...(normalized !== null && { normalizedResponse: normalized }),
+            ...(partial_transcripts && { partialTranscripts: segments }),
+            elapsedSeconds: elapsedSeconds(),
+          },
+        };
+      }
+
+      if (request.params.name === 'ask_choice') {
+        const { call_id, prompt, options } = request.params.arguments as { call_id: string; prompt: string; options: string[] };
+        const choice = await callManager.askChoice(call_id, prompt, options, callRequest);
+        const how = choice.method === 'keypad' ? `pressed ${choice.index + 1}` : `said "${choice.transcript}"`;
+
+        return {
+          content: [{
+            type: 'text',
+            text: `User chose option ${choice.index} (zero-based): ${choice.label}\n\nThe user ${how}.`,
+          }],
+          structuredContent: { callId: call_id, ...choice, elapsedSeconds: elapsedSeconds() },
         };
       }
 
       if (request.params.name === 'speak_to_user') {
         const { call_id, message } = request.params.arguments as { call_id: string; message: string };
-        await callManager.speakOnly(call_id, message);
+        const { interruption, response, saidWhileBusy } = await callManager.speakOnly(call_id, message, callRequest);
+        const normalized = response !== undefined ? callManager.normalizeTranscript(response) : null;
+
+        const structuredContent = {
+          callId: call_id,
+          ...interruptionOutput(interruption),
+          ...(response !== undefined && { response }),
+          ...(saidWhileBusy && { saidWhileBusy }),
+          ...(normalized !== null && { normalizedResponse: normalized }),
+          elapsedSeconds: elapsedSeconds(),
+        };
+
+        if (interruption) {
+          return {
+            content: [{ type: 'text', text: `User's response:\n${response}${formatNormalized(normalized, response)}${formatSaidWhileBusy(saidWhileBusy)}${formatInterruption(interruption)}` }],
+            structuredContent,
+          };
+        }
 
         return {
           content: [{ type: 'text', text: `Message spoken: "${message}"` }],
+          structuredContent,
+        };
+      }
+
+      if (request.params.name === 'record_voice_note') {
+        const { call_id, prompt, max_seconds, stop_phrases } = request.params.arguments as {
+          call_id: string;
+          prompt: string;
+          max_seconds?: number;
+          stop_phrases?: string[];
+        };
+        const note = await callManager.recordVoiceNote(call_id, prompt, {
+          maxSeconds: max_seconds,
+          stopPhrases: stop_phrases,
+          ...callRequest,
+        });
+        const normalized = callManager.normalizeTranscript(note.transcript);
+        const audio = note.audio ? `\nAudio: ${note.audio.path}` : '';
+        const ended = note.stoppedBy === 'hangup' ? '\n\nThe user hung up; the call has ended.' : '';
+
+        return {
+          content: [{
+            type: 'text',
+            text: `Voice note (${note.durationSeconds}s, ended by ${note.stoppedBy}):\n${note.transcript}${formatNormalized(normalized, note.transcript)}\n\nSegments (seconds into the call):\n${formatSegments(note.segments)}${audio}${ended}`,
+          }],
+          structuredContent: {
+            callId: call_id,
+            transcript: note.transcript,
+            ...(normalized !== null && { normalizedTranscript: normalized }),
+            stoppedBy: note.stoppedBy,
+            durationSeconds: note.durationSeconds,
+            segments: note.segments,
+            ...(note.audio && { audioPath: note.audio.path }),
+            elapsedSeconds: elapsedSeconds(),
+          },
         };
       }
 
       if (request.params.name === 'end_call') {
         const { call_id, message } = request.params.arguments as { call_id: string; message: string };
-        const { durationSeconds } = await callManager.endCall(call_id, message);
+        const { durationSeconds, recording } = await callManager.endCall(call_id, message);
+        const recorded = recording ? `\nRecording: ${recording.path} (${recording.durationSeconds}s)` : '';
+
+        return {
+          content: [{ type: 'text', text: `Call ended. Duration: ${durationSeconds}s${recorded}` }],
+          structuredContent: {
+            callId: call_id,
+            durationSeconds,
+            ...(recording && { recordingPath: recording.path, recordingSeconds: recording.durationSeconds }),
+          },
+        };
+      }
+
+      if (request.params.name === 'get_call_recording') {
+        const { call_id } = request.params.arguments as { call_id: string };
+        const recording = await callManager.getCallRecording(call_id);
+        const status = recording.inProgress ? ' (call still in progress, saved so far)' : '';
 
         return {
-          content: [{ type: 'text', text: `Call ended. Duration: ${durationSeconds}s` }],
+          content: [{ type: 'text', text: `Recording: ${recording.path}\nDuration: ${recording.durationSeconds}s${status}` }],
+          structuredContent: { callId: call_id, ...recording },
         };
       }
 
+      const history = callConversationTool(callManager.getConversationStore(), request.params.name, request.params.arguments);
+      if (history !== null) return history;
+
       throw new Error(`Unknown tool: ${request.params.name}`);
     } catch (error) {
+      if (error instanceof CallError) {
+        return {
+          content: [{ type: 'text', text: `Error: ${error.message}\n\nOutcome: ${error.code}\n${formatRetryHint(error.code)}` }],
+          isError: true,
+        };
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       return {
         content: [{ type: 'text', text: `Error: ${errorMessage}` }],
@@ -208,6 +865,22 @@ async function main() {
     }
   });
 
+  // Transcripts of past and ongoing conversations
+  mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: listConversationResources(callManager?.getConversationStore() ?? null) };
+  });
+
+  mcpServer.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: CONVERSATION_RESOURCE_TEMPLATES };
+  });
+
+  mcpServer.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    if (!callManager) {
+      throw new Error(initError ? `Server initialization failed: ${initError}` : 'Server not ready yet. Please try again in a moment.');
+    }
+    return readConversationResource(callManager.getConversationStore(), request.params.uri);
+  });
+
   // Connect MCP server via stdio
   const transport = new StdioServerTransport();
   await mcpServer.connect(transport);
@@ -238,6 +911,6 @@ async function main() {
 }
 
 main().catch((error) => {
-  console.error('Fatal error:', error);
+  log.error('Fatal error:', error);
   process.exit(1);
 });
@@ -0,0 +1,62 @@
+/**
+ * Tests for forwarding diagnostics as MCP log messages
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingMessageNotification } from '@modelcontextprotocol/sdk/types.js';
+import { forwardConsoleToMcp, log } from './mcp-logging.js';
+
+describe('forwardConsoleToMcp', () => {
+  let stop: (() => void) | null = null;
+  let sent: LoggingMessageNotification['params'][] = [];
+
+  function forward(connected = true): void {
+    sent = [];
+    const server = {
+      transport: connected ? {} : undefined,
+      sendLoggingMessage: async (params: LoggingMessageNotification['params']) => {
+        sent.push(params);
+      },
+    };
+    stop = forwardConsoleToMcp(server as unknown as Server, 'callme');
+  }
+
+  afterEach(() => {
+    stop?.();
+    stop = null;
+  });
+
+  test('sends each message at the level its call site chose', () => {
+    forward();
+    log.error('[History] Failed to add message:', new Error('disk full'));
+    log.warn('[Security] Rejecting WebSocket: missing or invalid token');
+    log.info('[Security] WebSocket token validated for call', 'call-1');
+
+    expect(sent.map(({ level, logger }) => [level, logger])).toEqual([
+      ['error', 'callme'],
+      ['warning', 'callme'],
+      ['info', 'callme'],
+    ]);
+    expect(sent[2].data).toBe('[Security] WebSocket token validated for call call-1');
+  });
+
+  test('sends console.error at info whatever it says', () => {
+    forward();
+    console.error('[call-1] User said: the build failed with an error after a timeout');
+
+    expect(sent.map(({ level }) => level)).toEqual(['info']);
+  });
+
+  test('sends nothing before the client connects or after forwarding stops', () => {
+    forward(false);
+    log.error('Fatal error:', 'boom');
+    expect(sent).toEqual([]);
+
+    forward();
+    stop!();
+    stop = null;
+    log.error('Fatal error:', 'boom');
+    expect(sent).toEqual([]);
+  });
+});
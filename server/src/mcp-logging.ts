@@ -0,0 +1,58 @@
+/**
+ * MCP Logging
+ *
+ * Mirrors the server's diagnostics to the MCP client as log messages
+ * (notifications/message), so webhook, TTS and STT problems show up in the
+ * client rather than only on stderr. Call sites pick the level with
+ * log.info/warn/error; anything else written with console.error is sent at info.
+ */
+
+import { format } from 'util';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+const writeToStderr = console.error.bind(console);
+
+/** Set while the MCP server is forwarding logs to its client */
+let forward: ((level: LoggingLevel, args: unknown[]) => void) | null = null;
+
+function write(level: LoggingLevel, args: unknown[]): void {
+  writeToStderr(...args);
+  forward?.(level, args);
+}
+
+/**
+ * Write a diagnostic to stderr (and to the MCP client, once forwarding) at an explicit level
+ */
+export const log = {
+  info: (...args: unknown[]): void => write('info', args),
+  warn: (...args: unknown[]): void => write('warning', args),
+  error: (...args: unknown[]): void => write('error', args),
+};
+
+/**
+ * Send everything logged to the MCP client as well, with console.error at info.
+ * Messages are still written to stderr; the client's logging/setLevel filters what it receives.
+ * @returns Stops forwarding and restores console.error
+ */
+export function forwardConsoleToMcp(server: Server, logger: string): () => void {
+  const originalConsoleError = console.error;
+  let forwarding = false;
+
+  forward = (level, args) => {
+    // Nothing to send to before the client connects, and never recurse if sending logs itself
+    if (forwarding || !server.transport) return;
+    forwarding = true;
+    try {
+      server.sendLoggingMessage({ level, logger, data: format(...args) }).catch(() => {});
+    } finally {
+      forwarding = false;
+    }
+  };
+  console.error = (...args: unknown[]) => write('info', args);
+
+  return () => {
+    forward = null;
+    console.error = originalConsoleError;
+  };
+}
@@ -0,0 +1,821 @@
+/**
+ * Tests for concurrent calls: each media stream must reach only its own call's STT session
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { createHmac } from 'crypto';
+import type { AddressInfo } from 'net';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import WebSocket from 'ws';
+import { CallManager, type ServerConfig, type InitiateCallResult } from './phone-call.js';
+import { ConversationStore } from './conversation-store.js';
+import { DEFAULT_TURN_STRATEGY } from './turn-strategy.js';
+import type {
+  PhoneProvider,
+  RealtimeSTTProvider,
+  RealtimeSTTSession,
+  STTSessionOptions,
+  TTSOutputFormat,
+  TTSProvider,
+  TurnDetection,
+  ProviderConfig,
+} from './providers/index.js';
+
+const AUTH_TOKEN = 'test-auth-token';
+const PUBLIC_URL = 'https://callme.test';
+
+class FakePhoneProvider implements PhoneProvider {
+  readonly name = 'fake';
+  dialed: string[] = [];
+  hungUp: string[] = [];
+
+  initialize(): void {}
+
+  async initiateCall(to: string): Promise<string> {
+    this.dialed.push(to);
+    return `CA-${to}`;
+  }
+
+  async answerCall(): Promise<void> {}
+
+  async hangup(callControlId: string): Promise<void> {
+    this.hungUp.push(callControlId);
+  }
+
+  async startStreaming(): Promise<void> {}
+
+  getStreamConnectXml(streamUrl: string): string {
+    return `<Response><Connect><Stream url="${streamUrl}" /></Connect></Response>`;
+  }
+}
+
+class FakeSTTSession implements RealtimeSTTSession {
+  received: Buffer[] = [];
+  private connected = false;
+  private resolveTranscript: ((transcript: string) => void) | null = null;
+
+  constructor(readonly language: string | undefined, private connecting: Promise<void> | null = null) {}
+
+  async connect(): Promise<void> {
+    await this.connecting;
+    this.connected = true;
+  }
+
+  sendAudio(audio: Buffer): void {
+    this.received.push(audio);
+  }
+
+  waitForTranscript(_timeoutMs?: number, signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.resolveTranscript = resolve;
+      signal?.addEventListener('abort', () => {
+        this.resolveTranscript = null;
+        reject(new DOMException('Transcript wait aborted', 'AbortError'));
+      }, { once: true });
+    });
+  }
+
+  get listening(): boolean {
+    return this.resolveTranscript !== null;
+  }
+
+  /** Transcripts that completed while nobody was listening */
+  queued: string[] = [];
+
+  takeQueuedTranscripts(): string[] {
+    return this.queued.splice(0);
+  }
+
+  /** Finish the turn, reporting which byte values this session heard */
+  finish(): void {
+    const heard = new Set(Buffer.concat(this.received));
+    this.resolveTranscript?.([...heard].map((byte) => byte.toString(16)).join(','));
+    this.resolveTranscript = null;
+  }
+
+  /** Deliver a transcript to the pending wait */
+  respond(transcript: string): void {
+    this.resolveTranscript?.(transcript);
+    this.resolveTranscript = null;
+  }
+
+  turnDetection: TurnDetection = { type: 'server_vad' };
+
+  setTurnDetection(detection: TurnDetection): void {
+    this.turnDetection = detection;
+  }
+
+  /** VAD reports the user started talking */
+  startSpeech(): void {
+    this.speechStart?.();
+  }
+
+  /** Speak into the session: VAD start, a partial per word, VAD end */
+  say(words: string[]): void {
+    this.speechStart?.();
+    words.forEach((_, i) => this.partial?.(words.slice(0, i + 1).join(' ')));
+    this.speechEnd?.();
+  }
+
+  /** The oldest utterance won't get a transcript (transcription failed or heard nothing) */
+  drop(): void {
+    this.speechDropped?.();
+  }
+
+  private partial: ((partial: string) => void) | null = null;
+  private speechStart: (() => void) | null = null;
+  private speechEnd: (() => void) | null = null;
+  private speechDropped: (() => void) | null = null;
+
+  onPartial(callback: (partial: string) => void): void {
+    this.partial = callback;
+  }
+
+  onSpeechStart(callback: () => void): void {
+    this.speechStart = callback;
+  }
+
+  onSpeechEnd(callback: () => void): void {
+    this.speechEnd = callback;
+  }
+
+  onSpeechDropped(callback: () => void): void {
+    this.speechDropped = callback;
+  }
+
+  close(): void {
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
+
+class FakeSTTProvider implements RealtimeSTTProvider {
+  readonly name = 'fake';
+  sessions: FakeSTTSession[] = [];
+  /** Sessions don't finish connecting until this settles */
+  connecting: Promise<void> | null = null;
+
+  initialize(): void {}
+
+  createSession(options: STTSessionOptions = {}): RealtimeSTTSession {
+    const session = new FakeSTTSession(options.language, this.connecting);
+    this.sessions.push(session);
+    return session;
+  }
+
+  byLanguage(language: string): FakeSTTSession {
+    return this.sessions.find((session) => session.language === language)!;
+  }
+}
+
+class FakeTTSProvider implements TTSProvider {
+  readonly name = 'fake';
+  outputFormat: TTSOutputFormat = 'pcm_24000';
+  // 20ms of silence at 24kHz, 16-bit
+  audio = Buffer.alloc(960);
+  spoken: string[] = [];
+  synthesizeStream?: (text: string) => AsyncGenerator<Buffer>;
+
+  initialize(): void {}
+
+  async synthesize(text: string): Promise<Buffer> {
+    this.spoken.push(text);
+    return this.audio;
+  }
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('CallManager concurrent calls', () => {
+  let phone: FakePhoneProvider;
+  let stt: FakeSTTProvider;
+  let tts: FakeTTSProvider;
+  let manager: CallManager;
+  let port: number;
+  const sockets: WebSocket[] = [];
+
+  async function start(overrides: Partial<ServerConfig> = {}): Promise<void> {
+    const config: ServerConfig = {
+      publicUrl: PUBLIC_URL,
+      port: 0,
+      phoneNumber: '+15550000001',
+      userPhoneNumber: '+15550000000',
+      contacts: [
+        { name: 'me', phoneNumber: '+15550000000' },
+        { name: 'Alice', phoneNumber: '+15551111111', language: 'en' },
+        { name: 'Bob', phoneNumber: '+15552222222', language: 'de' },
+      ],
+      maxConcurrentCalls: 3,
+      recordingDir: null,
+      voiceNotesDir: tmpdir(),
+      conversationStore: null,
+      inboundAllowedNumbers: ['+15550000000'],
+      providers: { phone, stt, tts },
+      providerConfig: { phoneProvider: 'twilio', phoneAuthToken: AUTH_TOKEN } as ProviderConfig,
+      transcriptTimeoutMs: 5000,
+      allowUnsignedWebhooks: false,
+      bargeIn: true,
+      cancelMessage: null,
+      mergeQueuedSpeech: false,
+      turnStrategy: DEFAULT_TURN_STRATEGY,
+      dictationRules: null,
+      retryPolicy: { maxAttempts: 1, delayMs: 0, retryOn: [] },
+      fallbackChannel: null,
+      ...overrides,
+    };
+    manager = new CallManager(config);
+    manager.startServer();
+    const server = manager.getHttpServer()!;
+    if (!server.listening) {
+      await new Promise((resolve) => server.once('listening', resolve));
+    }
+    port = (server.address() as AddressInfo).port;
+  }
+
+  /** Post a correctly signed Twilio webhook and return the TwiML */
+  async function postTwilio(params: Record<string, string>): Promise<string> {
+    const body = new URLSearchParams(params);
+    const signed = Array.from(body.entries())
+      .sort((a, b) => a[0].localeCompare(b[0]))
+      .map(([key, value]) => key + value)
+      .join('');
+    const signature = createHmac('sha1', AUTH_TOKEN).update(`${PUBLIC_URL}/twiml${signed}`).digest('base64');
+
+    const response = await fetch(`http://127.0.0.1:${port}/twiml`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'X-Twilio-Signature': signature },
+      body: body.toString(),
+    });
+    return response.text();
+  }
+
+  /** Answer a ringing call and return its media stream token */
+  async function answer(callSid: string): Promise<string> {
+    const twiml = await postTwilio({ CallSid: callSid, CallStatus: 'in-progress' });
+    await postTwilio({ CallSid: callSid, AnsweredBy: 'human' });
+    return decodeURIComponent(/token=([^"&]+)/.exec(twiml)![1]);
+  }
+
+  async function openStream(token?: string): Promise<WebSocket> {
+    const query = token ? `?token=${encodeURIComponent(token)}` : '';
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/media-stream${query}`);
+    sockets.push(ws);
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.on('error', reject);
+    });
+    return ws;
+  }
+
+  function sendMedia(ws: WebSocket, streamSid: string, byte: number): void {
+    ws.send(JSON.stringify({
+      event: 'media',
+      streamSid,
+      media: { track: 'inbound', payload: Buffer.alloc(160, byte).toString('base64') },
+    }));
+  }
+
+  /** Connect an outbound call to Alice and get through the first turn */
+  async function connect(): Promise<{ callId: string; session: FakeSTTSession; stream: WebSocket }> {
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice' });
+    await waitFor(() => phone.dialed.length === 1);
+    const stream = await openStream(await answer('CA-+15551111111'));
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+
+    const session = stt.byLanguage('en');
+    await waitFor(() => session.listening);
+    session.respond('hello');
+    const { callId } = (await call) as Extract<InitiateCallResult, { status: 'connected' }>;
+    return { callId, session, stream };
+  }
+
+  beforeEach(() => {
+    phone = new FakePhoneProvider();
+    stt = new FakeSTTProvider();
+    tts = new FakeTTSProvider();
+  });
+
+  afterEach(() => {
+    for (const ws of sockets.splice(0)) ws.close();
+    manager.getHttpServer()?.close();
+  });
+
+  test('routes interleaved media from two streams to their own STT sessions', async () => {
+    await start();
+
+    const aliceCall = manager.initiateCall('Hi Alice', { contact: 'alice' });
+    const bobCall = manager.initiateCall('Hi Bob', { contact: 'bob' });
+    await waitFor(() => phone.dialed.length === 2);
+
+    const aliceStream = await openStream(await answer('CA-+15551111111'));
+    const bobStream = await openStream(await answer('CA-+15552222222'));
+    aliceStream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+    bobStream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-bob', start: { callSid: 'CA-+15552222222' } }));
+
+    for (let i = 0; i < 5; i++) {
+      sendMedia(aliceStream, 'MZ-alice', 0x11);
+      sendMedia(bobStream, 'MZ-bob', 0x22);
+    }
+    // A stream can't inject audio into another call by naming its streamSid
+    sendMedia(aliceStream, 'MZ-bob', 0x33);
+
+    const aliceSession = stt.byLanguage('en');
+    const bobSession = stt.byLanguage('de');
+    await waitFor(() => aliceSession.received.length === 5 && bobSession.received.length === 5);
+    await waitFor(() => aliceSession.listening && bobSession.listening);
+
+    bobSession.finish();
+    aliceSession.finish();
+    const [alice, bob] = (await Promise.all([aliceCall, bobCall])) as Extract<InitiateCallResult, { status: 'connected' }>[];
+
+    expect(alice.status).toBe('connected');
+    expect(alice.response).toBe('11');
+    expect(bob.response).toBe('22');
+    expect(alice.callId).not.toBe(bob.callId);
+
+    await Promise.all([manager.endCall(alice.callId, 'Bye'), manager.endCall(bob.callId, 'Bye')]);
+    expect(phone.hungUp.sort()).toEqual(['CA-+15551111111', 'CA-+15552222222']);
+  });
+
+  test('rejects a second stream reusing a call token', async () => {
+    await start();
+
+    manager.initiateCall('Hi Alice', { contact: 'alice' }).catch(() => {});
+    await waitFor(() => phone.dialed.length === 1);
+    const token = await answer('CA-+15551111111');
+
+    await openStream(token);
+    await expect(openStream(token)).rejects.toThrow();
+  });
+
+  test('rejects streams without a token unless unsigned webhooks are allowed', async () => {
+    await start();
+    await expect(openStream()).rejects.toThrow();
+  });
+
+  test('binds unauthenticated streams by the call SID in their start event', async () => {
+    await start({ allowUnsignedWebhooks: true });
+
+    const aliceCall = manager.initiateCall('Hi Alice', { contact: 'alice' });
+    const bobCall = manager.initiateCall('Hi Bob', { contact: 'bob' });
+    await waitFor(() => phone.dialed.length === 2);
+    await answer('CA-+15551111111');
+    await answer('CA-+15552222222');
+
+    // Bob's stream connects first; it must not be mistaken for the most recent call
+    const bobStream = await openStream();
+    const aliceStream = await openStream();
+    bobStream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-bob', start: { callSid: 'CA-+15552222222' } }));
+    aliceStream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+    sendMedia(bobStream, 'MZ-bob', 0x22);
+    sendMedia(aliceStream, 'MZ-alice', 0x11);
+
+    const aliceSession = stt.byLanguage('en');
+    const bobSession = stt.byLanguage('de');
+    await waitFor(() => aliceSession.listening && bobSession.listening);
+    await waitFor(() => aliceSession.received.length === 1 && bobSession.received.length === 1);
+    aliceSession.finish();
+    bobSession.finish();
+
+    const [alice, bob] = (await Promise.all([aliceCall, bobCall])) as Extract<InitiateCallResult, { status: 'connected' }>[];
+    expect(alice.response).toBe('11');
+    expect(bob.response).toBe('22');
+  });
+
+  test('closes unauthenticated streams for unknown calls', async () => {
+    await start({ allowUnsignedWebhooks: true });
+
+    const ws = await openStream();
+    const closed = new Promise((resolve) => ws.once('close', resolve));
+    ws.send(JSON.stringify({ event: 'start', streamSid: 'MZ-x', start: { callSid: 'CA-unknown' } }));
+    await closed;
+  });
+
+  test('records the call in the conversation store', async () => {
+    const store = new ConversationStore(':memory:');
+    await start({ conversationStore: store });
+
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice' });
+    await waitFor(() => phone.dialed.length === 1);
+    const stream = await openStream(await answer('CA-+15551111111'));
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+    sendMedia(stream, 'MZ-alice', 0x11);
+
+    const session = stt.byLanguage('en');
+    await waitFor(() => session.listening && session.received.length === 1);
+    session.finish();
+    const { callId } = (await call) as Extract<InitiateCallResult, { status: 'connected' }>;
+    await manager.endCall(callId, 'Bye');
+
+    const conversation = store.getConversation(callId)!;
+    expect(conversation.channel).toBe('phone');
+    expect(conversation.participantName).toBe('Alice');
+    expect(conversation.participantAddress).toBe('+15551111111');
+    expect(conversation.outcome).toBe('COMPLETED');
+    expect(conversation.messages.map((m) => [m.speaker, m.text])).toEqual([
+      ['claude', 'Hi Alice'],
+      ['user', '11'],
+      ['claude', 'Bye'],
+    ]);
+    store.close();
+  });
+
+  test('reports each call phase as progress', async () => {
+    await start();
+
+    const phases: string[] = [];
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice', onProgress: (phase) => phases.push(phase) });
+    await waitFor(() => phone.dialed.length === 1);
+    await postTwilio({ CallSid: 'CA-+15551111111', CallStatus: 'ringing', Direction: 'outbound-api' });
+    const stream = await openStream(await answer('CA-+15551111111'));
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+
+    const session = stt.byLanguage('en');
+    await waitFor(() => session.listening);
+    session.finish();
+    const { callId } = (await call) as Extract<InitiateCallResult, { status: 'connected' }>;
+
+    expect(phases).toEqual(['dialing', 'ringing', 'answered', 'stream_ready', 'speaking', 'listening', 'transcript']);
+
+    // Progress belongs to the request that asked for it
+    await manager.endCall(callId, 'Bye');
+    expect(phases).toHaveLength(7);
+  });
+
+  test('plays mu-law TTS output as is', async () => {
+    await start();
+    tts.outputFormat = 'ulaw_8000';
+    tts.audio = Buffer.alloc(480, 0x42);
+    const { callId, stream } = await connect();
+
+    const played: Buffer[] = [];
+    stream.on('message', (data) => {
+      const message = JSON.parse(data.toString());
+      if (message.event === 'media') played.push(Buffer.from(message.media.payload, 'base64'));
+    });
+
+    await manager.speakOnly(callId, 'Build passed');
+    tts.synthesizeStream = async function* () {
+      yield Buffer.alloc(100, 0x43);
+      yield Buffer.alloc(61, 0x43);
+    };
+    await manager.speakOnly(callId, 'Deploy passed');
+    await waitFor(() => Buffer.concat(played).length === 480 + 161);
+
+    expect(Buffer.concat(played)).toEqual(Buffer.concat([Buffer.alloc(480, 0x42), Buffer.alloc(161, 0x43)]));
+    await manager.endCall(callId, 'Bye');
+  });
+
+  test('streams partial transcripts and returns speech segments', async () => {
+    await start();
+
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice' });
+    await waitFor(() => phone.dialed.length === 1);
+    const stream = await openStream(await answer('CA-+15551111111'));
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+
+    const session = stt.byLanguage('en');
+    await waitFor(() => session.listening);
+    session.finish();
+    const { callId, segments } = (await call) as Extract<InitiateCallResult, { status: 'connected' }>;
+    // No VAD events, so the transcript is its own segment
+    expect(segments).toHaveLength(1);
+    expect(segments[0].final).toBe(true);
+
+    const progress: string[] = [];
+    const next = manager.continueCall(callId, 'Which branch?', {
+      onProgress: (phase, message) => {
+        if (phase === 'partial_transcript') progress.push(message);
+      },
+    });
+    await waitFor(() => session.listening);
+    session.say(['ship', 'it']);
+    session.finish();
+    const result = await next;
+
+    expect(progress).toEqual(['Heard so far: ship', 'Heard so far: ship it']);
+    expect(result.segments).toHaveLength(1);
+    expect(result.segments[0]).toMatchObject({ text: result.response, final: true });
+    expect(result.segments[0].endSeconds).toBeGreaterThanOrEqual(result.segments[0].startSeconds);
+  });
+
+  test('returns speech said while Claude was busy on the next listen', async () => {
+    await start();
+
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice' });
+    await waitFor(() => phone.dialed.length === 1);
+    const stream = await openStream(await answer('CA-+15551111111'));
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+
+    const session = stt.byLanguage('en');
+    await waitFor(() => session.listening);
+    session.finish();
+    const { callId } = (await call) as Extract<InitiateCallResult, { status: 'connected' }>;
+
+    session.queued.push('oh and use the staging branch');
+    const result = await manager.continueCall(callId, 'Which branch?');
+
+    expect(result.response).toBe('oh and use the staging branch');
+    expect(result.saidWhileBusy).toEqual(['oh and use the staging branch']);
+    expect(session.listening).toBe(false);
+  });
+
+  test('merges speech said while busy with the next reply when configured', async () => {
+    await start({ mergeQueuedSpeech: true });
+
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice' });
+    await waitFor(() => phone.dialed.length === 1);
+    const stream = await openStream(await answer('CA-+15551111111'));
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+
+    const session = stt.byLanguage('en');
+    await waitFor(() => session.listening);
+    session.finish();
+    const { callId } = (await call) as Extract<InitiateCallResult, { status: 'connected' }>;
+
+    session.queued.push('wait');
+    const next = manager.continueCall(callId, 'Which branch?');
+    await waitFor(() => session.listening);
+    session.finish();
+    const result = await next;
+
+    expect(result.response).toStartWith('wait ');
+    expect(result.saidWhileBusy).toEqual(['wait']);
+    expect(result.segments.map((s) => s.final)).toEqual([true, true]);
+  });
+
+  describe('turn strategies', () => {
+    test('keyword: keeps listening until the user says an end keyword', async () => {
+      await start();
+      const { callId, session } = await connect();
+
+      const next = manager.continueCall(callId, 'Dictate the commit message', { turnStrategy: { type: 'keyword' } });
+      await waitFor(() => session.listening);
+      session.respond('Fix the login bug.');
+      await waitFor(() => session.listening);
+      session.respond('Add a test. Over.');
+
+      expect((await next).response).toBe('Fix the login bug. Add a test');
+    });
+
+    test('keypad: keeps listening until the user presses #', async () => {
+      await start();
+      const { callId, session, stream } = await connect();
+
+      const next = manager.continueCall(callId, 'Go ahead', { turnStrategy: { type: 'keypad' } });
+      await waitFor(() => session.listening);
+      session.respond('first');
+      await waitFor(() => session.listening);
+      session.respond('second');
+      await waitFor(() => session.listening);
+      stream.send(JSON.stringify({ event: 'dtmf', streamSid: 'MZ-alice', dtmf: { digit: '#' } }));
+
+      expect((await next).response).toBe('first second');
+      // The strategy sticks for the rest of the call, and the stopped wait doesn't eat later speech
+      expect(session.listening).toBe(false);
+    });
+
+    test('keypad: stops waiting for the last words when they are dropped', async () => {
+      await start();
+      const { callId, session, stream } = await connect();
+
+      const next = manager.continueCall(callId, 'Go ahead', { turnStrategy: { type: 'keypad' } });
+      await waitFor(() => session.listening);
+      session.respond('first');
+      await waitFor(() => session.listening);
+      session.say(['um']);
+      stream.send(JSON.stringify({ event: 'dtmf', streamSid: 'MZ-alice', dtmf: { digit: '#' } }));
+      await Bun.sleep(100);
+      const droppedAt = Date.now();
+      session.drop();
+      const result = await next;
+
+      expect(result.response).toBe('first');
+      expect(result.segments.map((s) => s.text)).toEqual(['first']);
+      // Well inside the grace period for words still being transcribed
+      expect(Date.now() - droppedAt).toBeLessThan(1000);
+    });
+
+    test('vad: joins segments when the user resumes within the merge window', async () => {
+      await start();
+      const { callId, session } = await connect();
+
+      const next = manager.continueCall(callId, 'Which branch?', { turnStrategy: { type: 'vad', mergeWindowMs: 2000 } });
+      await waitFor(() => session.listening);
+      session.say(['the', 'one']);
+      session.respond('the one');
+      session.startSpeech();
+      await waitFor(() => session.listening);
+      session.respond('from yesterday');
+
+      expect((await next).response).toBe('the one from yesterday');
+    });
+
+    test('discards the segment of an utterance that got no transcript', async () => {
+      await start();
+      const { callId, session } = await connect();
+
+      const next = manager.continueCall(callId, 'Dictate the commit message', { turnStrategy: { type: 'keyword' } });
+      await waitFor(() => session.listening);
+      session.say(['Fix', 'the', 'bug.']);
+      session.respond('Fix the bug.');
+      await Bun.sleep(300);
+      session.say(['mumble']);
+      session.drop();
+      await Bun.sleep(300);
+      await waitFor(() => session.listening);
+      session.say(['Over.']);
+      session.respond('Over.');
+      const { response, segments } = await next;
+
+      expect(response).toBe('Fix the bug');
+      expect(segments.map((s) => [s.text, s.final])).toEqual([['Fix the bug.', true], ['Over.', true]]);
+      // The later segment keeps its own timing, not the dropped one's
+      expect(segments[1].startSeconds - segments[0].startSeconds).toBeGreaterThanOrEqual(0.5);
+    });
+
+    test('semantic_vad: switches the STT session to semantic turn detection', async () => {
+      await start({ turnStrategy: { ...DEFAULT_TURN_STRATEGY, type: 'semantic_vad', eagerness: 'low' } });
+      const { session } = await connect();
+
+      expect(session.turnDetection).toEqual({ type: 'semantic_vad', eagerness: 'low' });
+    });
+  });
+
+  describe('voice notes', () => {
+    let notesDir: string;
+
+    beforeEach(() => {
+      notesDir = mkdtempSync(join(tmpdir(), 'callme-notes-'));
+    });
+
+    afterEach(() => {
+      rmSync(notesDir, { recursive: true, force: true });
+    });
+
+    test('records until the stop phrase and saves the audio', async () => {
+      await start({ voiceNotesDir: notesDir });
+      const { callId, session, stream } = await connect();
+
+      const recording = manager.recordVoiceNote(callId, 'Go ahead');
+      await waitFor(() => session.listening);
+      session.respond('The login page crashes.');
+      session.received = [];
+      sendMedia(stream, 'MZ-alice', 0x11);
+      sendMedia(stream, 'MZ-alice', 0x11);
+      await waitFor(() => session.received.length === 2);
+      await waitFor(() => session.listening);
+      session.respond('It happens on Safari. End of note.');
+      const note = await recording;
+
+      expect(note.transcript).toBe('The login page crashes. It happens on Safari');
+      expect(note.stoppedBy).toBe('phrase');
+      expect(note.segments.map((s) => s.text)).toEqual(['The login page crashes.', 'It happens on Safari. End of note.']);
+      expect(note.audio!.path.startsWith(notesDir)).toBe(true);
+      // 44-byte WAV header, then 320 mu-law samples as 16-bit PCM
+      expect(readFileSync(note.audio!.path)).toHaveLength(44 + 320 * 2);
+      expect(tts.spoken).toContain('Go ahead');
+    });
+
+    test('stops when the user presses a key', async () => {
+      await start({ voiceNotesDir: notesDir });
+      const { callId, session, stream } = await connect();
+
+      const recording = manager.recordVoiceNote(callId, 'Go ahead', { maxSeconds: 60 });
+      await waitFor(() => session.listening);
+      session.respond('Ship it on Friday');
+      await waitFor(() => session.listening);
+      stream.send(JSON.stringify({ event: 'dtmf', streamSid: 'MZ-alice', dtmf: { digit: '5' } }));
+      const note = await recording;
+
+      expect(note.transcript).toBe('Ship it on Friday');
+      expect(note.stoppedBy).toBe('keypad');
+      expect(note.audio).toBeNull();
+    });
+  });
+
+  test('keeps the call open when a wait is cancelled', async () => {
+    await start({ cancelMessage: 'Never mind' });
+
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice' });
+    await waitFor(() => phone.dialed.length === 1);
+    const stream = await openStream(await answer('CA-+15551111111'));
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+
+    const session = stt.byLanguage('en');
+    await waitFor(() => session.listening);
+    session.finish();
+    const { callId } = (await call) as Extract<InitiateCallResult, { status: 'connected' }>;
+
+    const controller = new AbortController();
+    const cancelled = manager.continueCall(callId, 'Which branch?', { signal: controller.signal });
+    await waitFor(() => session.listening);
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('aborted');
+
+    expect(tts.spoken).toContain('Never mind');
+    expect(phone.hungUp).toEqual([]);
+
+    const next = manager.continueCall(callId, 'Anything else?');
+    await waitFor(() => session.listening);
+    session.finish();
+    expect((await next).response).toBe('');
+  });
+
+  test('leaves a voicemail when the machine is detected after the message started', async () => {
+    await start();
+
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice', voicemailMessage: 'Call me back' });
+    await waitFor(() => phone.dialed.length === 1);
+    // No AMD result with the answer: Twilio reports a machine only once its greeting ends
+    const twiml = await postTwilio({ CallSid: 'CA-+15551111111', CallStatus: 'in-progress' });
+    const stream = await openStream(decodeURIComponent(/token=([^"&]+)/.exec(twiml)![1]));
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-alice', start: { callSid: 'CA-+15551111111' } }));
+
+    const session = stt.byLanguage('en');
+    await waitFor(() => session.listening, 10000);
+    await postTwilio({ CallSid: 'CA-+15551111111', AnsweredBy: 'machine_end_beep' });
+
+    const result = await call;
+    expect(result).toMatchObject({ status: 'voicemail', voicemail: 'left_message' });
+    expect(tts.spoken).toEqual(['Hi Alice', 'Call me back']);
+    expect(phone.hungUp).toEqual(['CA-+15551111111']);
+  }, 15000);
+
+  test('calls the "me" contact by default even when its number differs from the user number', async () => {
+    await start({ contacts: [{ name: 'me', phoneNumber: '+15559999999' }] });
+
+    const controller = new AbortController();
+    const call = manager.initiateCall('Hi', { signal: controller.signal });
+    await waitFor(() => phone.dialed.length === 1);
+    controller.abort();
+
+    await expect(call).rejects.toThrow();
+    expect(phone.dialed).toEqual(['+15559999999']);
+  });
+
+  test('hangs up an outbound call cancelled before it connects', async () => {
+    const store = new ConversationStore(':memory:');
+    await start({ conversationStore: store });
+
+    const controller = new AbortController();
+    const call = manager.initiateCall('Hi Alice', { contact: 'alice', signal: controller.signal });
+    await waitFor(() => phone.dialed.length === 1);
+    controller.abort();
+
+    await expect(call).rejects.toThrow();
+    expect(phone.hungUp).toEqual(['CA-+15551111111']);
+    expect(store.listConversations().map((c) => c.outcome)).toEqual(['CANCELLED']);
+    store.close();
+  });
+
+  test('hands over an inbound call whose setup outlasts the wait timeout', async () => {
+    await start();
+    let connected!: () => void;
+    stt.connecting = new Promise((resolve) => { connected = resolve; });
+
+    const inbound = manager.waitForInboundCall(undefined, 100);
+    const twiml = postTwilio({
+      CallSid: 'CA-inbound',
+      CallStatus: 'ringing',
+      Direction: 'inbound',
+      From: '+15550000000',
+      To: '+15550000001',
+    });
+    await waitFor(() => stt.sessions.length === 1);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    connected();
+
+    const token = decodeURIComponent(/token=([^"&]+)/.exec(await twiml)![1]);
+    const stream = await openStream(token);
+    stream.send(JSON.stringify({ event: 'start', streamSid: 'MZ-inbound', start: { callSid: 'CA-inbound' } }));
+    await waitFor(() => stt.sessions[0].listening);
+    stt.sessions[0].respond('it is me');
+
+    const result = await inbound;
+    expect(result.from).toBe('+15550000000');
+    expect(result.response).toBe('it is me');
+    expect(phone.hungUp).toEqual([]);
+  });
+
+  test('fails clearly when the concurrency limit is reached', async () => {
+    await start({ maxConcurrentCalls: 1 });
+
+    manager.initiateCall('Hi Alice', { contact: 'alice' }).catch(() => {});
+    await expect(manager.initiateCall('Hi Bob', { contact: 'bob' })).rejects.toThrow(
+      /Call limit reached: 1 of 1 calls are active \(call-1-\d+\)/
+    );
+    await expect(manager.waitForInboundCall()).rejects.toThrow('Call limit reached');
+  });
+});
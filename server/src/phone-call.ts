@@ -1,5 +1,7 @@
 import WebSocket, { WebSocketServer } from 'ws';
 import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { join, resolve as resolvePath } from 'path';
+import { homedir } from 'os';
 import {
   loadProviderConfig,
   createProviders,
@@ -7,6 +9,10 @@ import {
   type ProviderRegistry,
   type ProviderConfig,
   type RealtimeSTTSession,
+  type SynthesisOptions,
+  type TTSOutputFormat,
+  type TelegramProvider,
+  TelegramBotProvider,
 } from './providers/index.js';
 import {
   validateTwilioSignature,
@@ -15,6 +21,36 @@ import {
   validateWebSocketToken,
 } from './webhook-security.js';
 import { resample24kTo8k, pcmToMuLaw } from './audio-utils.js';
+import { buildChoicePrompt, matchDigitChoice, matchSpokenChoice, MAX_CHOICE_OPTIONS } from './choice.js';
+import {
+  CallError,
+  classifyTelnyxHangup,
+  classifyTwilioStatus,
+  isDialFailure,
+  loadRetryPolicy,
+  toCallError,
+  CALL_OUTCOME_DESCRIPTIONS,
+  type CallOutcomeCode,
+  type DialFailureCode,
+  type RetryPolicy,
+} from './call-outcome.js';
+import {
+  loadContacts,
+  findContact,
+  findContactByNumber,
+  isWithinAllowedHours,
+  formatAllowedHours,
+  normalizePhoneNumber,
+  DEFAULT_CONTACT_NAME,
+  type Contact,
+} from './contacts.js';
+import { CallRecorder, saveMuLawWav, type CallRecording } from './call-recorder.js';
+import { openConversationStore, type ConversationStore } from './conversation-store.js';
+import { abortError, delay, isAbortError, throwIfAborted } from './abort.js';
+import { loadDictationRules, normalizeDictation, type DictationRule } from './dictation.js';
+import { loadVocabulary } from './vocabulary.js';
+import { loadTurnStrategy, resolveTurnStrategy, stripEndKeyword, DEFAULT_TURN_STRATEGY, type TurnStrategy } from './turn-strategy.js';
+import { log } from './mcp-logging.js';
 
 /**
  * Audio and timing constants
@@ -30,19 +66,43 @@ const AUDIO_CONSTANTS = {
   JITTER_BUFFER_MS: 100,
   /** Samples per resample unit: 6 bytes (3 samples) at 24kHz -> 1 sample at 8kHz */
   SAMPLES_PER_RESAMPLE: 6,
+  /** 8kHz mu-law: 8000 bytes per second of audio */
+  MULAW_BYTES_PER_SECOND: 8000,
+  /** Typical TTS speaking rate, used to estimate how much of an interrupted message was heard */
+  SPOKEN_WORDS_PER_SECOND: 2.5,
 } as const;
 
 const TIMEOUT_CONSTANTS = {
-  /** Timeout for WebSocket connection to be established */
+  /** Timeout for WebSocket connection to be established once the call is answered */
   WS_CONNECTION_TIMEOUT_MS: 15000,
+  /** How long an outbound call may ring (carriers give up after ~60s) before it counts as unanswered */
+  RING_TIMEOUT_MS: 65000,
   /** Interval for checking hangup status */
   HANGUP_CHECK_INTERVAL_MS: 100,
   /** Delay before hanging up to allow final audio to play */
   HANGUP_AUDIO_DELAY_MS: 2000,
   /** Small delay after speaking before listening */
   POST_SPEAK_DELAY_MS: 150,
+  /** Default time to wait for the user to call in */
+  INBOUND_WAIT_TIMEOUT_MS: 600000,
+  /** How long to wait for the answering machine detection result before starting to talk (a late result still counts) */
+  AMD_RESULT_TIMEOUT_MS: 6000,
+  /** How long to wait for a voicemail greeting to end (beep) before leaving the message anyway */
+  VOICEMAIL_BEEP_TIMEOUT_MS: 30000,
+  /** How long to wait for the last words to be transcribed after a key ends a turn or voice note */
+  FINAL_TRANSCRIPT_GRACE_MS: 3000,
 } as const;
 
+/** Time limit for a voice note when the tool call doesn't give one, and the most it may ask for */
+const VOICE_NOTE_DEFAULT_SECONDS = 300;
+const VOICE_NOTE_MAX_SECONDS = 1800;
+
+/** Phrases that end a voice note when said last */
+const VOICE_NOTE_STOP_PHRASES = ['end of note', 'stop recording'];
+
+/** How many times ask_choice re-prompts before giving up */
+const CHOICE_MAX_ATTEMPTS = 2;
+
 /**
  * Telnyx webhook event types
  */
@@ -52,6 +112,12 @@ interface TelnyxWebhookEvent {
     payload: {
       call_control_id: string;
       result?: string;
+      direction?: 'incoming' | 'outgoing';
+      from?: string;
+      to?: string;
+      digit?: string;
+      hangup_cause?: string;
+      hangup_source?: string;
       [key: string]: unknown;
     };
   };
@@ -61,18 +127,28 @@ interface TelnyxWebhookEvent {
  * Twilio WebSocket media message
  */
 interface TwilioMediaMessage {
-  event: 'start' | 'media' | 'stop' | 'mark';
+  event: 'start' | 'media' | 'stop' | 'mark' | 'dtmf';
   streamSid?: string;
+  start?: {
+    callSid?: string;  // Twilio
+    call_control_id?: string;  // Telnyx
+  };
   media?: {
     payload: string;
     track?: 'inbound' | 'outbound' | 'inbound_track' | 'outbound_track';
   };
+  dtmf?: {
+    digit: string;
+    track?: string;
+  };
 }
 
 interface CallState {
   callId: string;
   callControlId: string | null;
+  direction: 'outbound' | 'inbound';
   userPhoneNumber: string;
+  contact: Contact | null;  // Directory entry for the other party (voice, language)
   ws: WebSocket | null;
   streamSid: string | null;  // Twilio media stream ID (required for sending audio)
   streamingReady: boolean;  // True when streaming.started event received (Telnyx)
@@ -82,6 +158,148 @@ interface CallState {
   hungUp: boolean;
   sttSession: RealtimeSTTSession | null;
   hangupCheckInterval: ReturnType<typeof setInterval> | null;  // For cleanup on transcript resolution
+  recorder: CallRecorder | null;  // Set while the call is being recorded (CALLME_RECORDING_DIR)
+  pendingDigits: string[];  // DTMF digits pressed while no menu was waiting
+  onDigit: ((digit: string) => void) | null;  // Set while ask_choice is waiting for a keypress
+  speaking: boolean;  // True while TTS audio is being sent and barge-in is allowed
+  interrupted: boolean;  // Set when the user starts talking over TTS playback
+  answeredBy: 'human' | 'machine' | null;  // Answering machine detection result (null until known)
+  greetingEnded: boolean;  // True once a voicemail greeting has finished (beep detected)
+  answered: boolean;  // True once the carrier reports the call was picked up
+  endReason: CallOutcomeCode | 'CANCELLED' | null;  // Why the call ended, from carrier callbacks (or Claude cancelling it)
+  progress: ProgressListener | null;  // Set while a tool call is waiting on this call
+  speechSegments: SpeechSegment[];  // VAD segments heard since the last listen, plus any still open
+  saidWhileBusy: string[];  // Transcripts from before the last listen started, included in its response
+  turnStrategy: TurnStrategy;  // How listen decides the user's reply is over
+  voiceNoteAudio: Buffer[] | null;  // Caller audio captured while a voice note is being recorded
+}
+
+/**
+ * What to do when an outbound call reaches voicemail
+ */
+export type VoicemailAction = 'leave_message' | 'hang_up';
+
+/**
+ * Phases of a call reported as progress while a tool call waits on it
+ */
+export type CallPhase =
+  | 'dialing'
+  | 'ringing'
+  | 'answered'
+  | 'stream_ready'
+  | 'speaking'
+  | 'listening'
+  | 'partial_transcript'
+  | 'transcript';
+
+export type ProgressListener = (phase: CallPhase, message: string) => void;
+
+/**
+ * Hooks from the MCP tool call driving a call
+ */
+export interface CallRequestOptions {
+  /** Cancels the wait; see each method for what happens to the call */
+  signal?: AbortSignal;
+  /** Receives each phase of the call while the request runs */
+  onProgress?: ProgressListener;
+}
+
+export interface ContinueCallOptions extends CallRequestOptions {
+  /** Change how this call decides the user's reply is over, from this turn on */
+  turnStrategy?: Partial<TurnStrategy>;
+}
+
+export interface InitiateCallOptions extends CallRequestOptions {
+  /** Who to call, by contacts directory name (default: the user) */
+  contact?: string;
+  /** What to do if an answering machine picks up (default: leave_message) */
+  voicemail?: VoicemailAction;
+  /** Shorter message to leave on voicemail (default: the call message) */
+  voicemailMessage?: string;
+}
+
+export type InitiateCallResult =
+  | { status: 'connected'; callId: string; response: string; interruption: Interruption | null } & HeardSpeech
+  | { status: 'voicemail'; callId: string; voicemail: 'left_message' | 'hung_up'; durationSeconds: number }
+  | { status: 'unreachable'; outcome: DialFailureCode; attempts: number; fallbackSent: boolean };
+
+/**
+ * One stretch of speech detected by the STT provider's VAD
+ */
+export interface SpeechSegment {
+  /** Seconds from the start of the call */
+  startSeconds: number;
+  /** Seconds from the start of the call (null while the user is still talking) */
+  endSeconds: number | null;
+  /** Final transcript, or the latest partial if the segment isn't final yet */
+  text: string;
+  final: boolean;
+}
+
+/**
+ * How a reply was heard, alongside the response text
+ */
+export interface HeardSpeech {
+  /** Each stretch of speech in the reply */
+  segments: SpeechSegment[];
+  /** Parts of the response the user said while Claude was thinking or speaking, oldest first */
+  saidWhileBusy: string[];
+}
+
+export interface VoiceNoteOptions extends CallRequestOptions {
+  /** Stop after this long (default: 300s, at most 1800s) */
+  maxSeconds?: number;
+  /** Phrases that end the note when said last (default: "end of note", "stop recording") */
+  stopPhrases?: string[];
+}
+
+/**
+ * What ended a voice note
+ */
+export type VoiceNoteStop = 'phrase' | 'keypad' | 'time_limit' | 'silence' | 'hangup';
+
+export interface VoiceNote {
+  /** Everything the user said, stitched together, without the stop phrase */
+  transcript: string;
+  /** Each stretch of speech, with timestamps */
+  segments: SpeechSegment[];
+  stoppedBy: VoiceNoteStop;
+  /** Length of the recorded span */
+  durationSeconds: number;
+  /** The caller's audio for the span (null if nothing was captured or saving failed) */
+  audio: CallRecording | null;
+}
+
+/**
+ * Details of a message the user talked over
+ */
+export interface Interruption {
+  /** Seconds of audio played before playback was stopped */
+  playedSeconds: number;
+  /** Rough estimate of the part of the message the user heard */
+  heardText: string;
+}
+
+/**
+ * Result of an ask_choice menu
+ */
+export interface ChoiceResult {
+  /** Zero-based index into the offered options */
+  index: number;
+  label: string;
+  method: 'keypad' | 'speech';
+  /** What the user said, when they answered by voice */
+  transcript?: string;
+}
+
+/**
+ * A pending wait_for_inbound_call request, resolved when an allowed caller connects
+ */
+interface InboundCallWaiter {
+  resolve: (state: CallState) => void;
+  reject: (error: Error) => void;
+  /** True once resolved or rejected; a call set up after that has nobody to hand it to */
+  settled: boolean;
 }
 
 export interface ServerConfig {
@@ -89,11 +307,37 @@ export interface ServerConfig {
   port: number;
   phoneNumber: string;
   userPhoneNumber: string;
+  /** People Claude may call; always includes the user as "me" */
+  contacts: Contact[];
+  /** Most calls (outbound and inbound) that may be active at once */
+  maxConcurrentCalls: number;
+  /** Where to save call recordings (null = don't record) */
+  recordingDir: string | null;
+  /** Where to save the audio of voice notes */
+  voiceNotesDir: string;
+  /** Conversation history database (null = history disabled) */
+  conversationStore: ConversationStore | null;
+  /** Caller numbers allowed to reach Claude via inbound calls */
+  inboundAllowedNumbers: string[];
   providers: ProviderRegistry;
   providerConfig: ProviderConfig;  // For webhook signature verification
   transcriptTimeoutMs: number;
   /** Allow unsigned webhooks (INSECURE - only for development/testing) */
   allowUnsignedWebhooks: boolean;
+  /** Stop speaking when the user starts talking */
+  bargeIn: boolean;
+  /** Said on the call when Claude cancels a wait, e.g. "Never mind" (null = say nothing) */
+  cancelMessage: string | null;
+  /** Wait for a reply after speech said while Claude was busy, instead of returning it right away */
+  mergeQueuedSpeech: boolean;
+  /** How calls decide the user's reply is over, until continue_call changes it */
+  turnStrategy: TurnStrategy;
+  /** Rules for turning dictated code terms into literal text (null = don't normalize) */
+  dictationRules: DictationRule[] | null;
+  /** When and how often to redial calls that don't connect */
+  retryPolicy: RetryPolicy;
+  /** Where to send the message if every call attempt fails (null = nowhere) */
+  fallbackChannel: TelegramProvider | null;
 }
 
 export function loadServerConfig(publicUrl: string): ServerConfig {
@@ -104,6 +348,69 @@ export function loadServerConfig(publicUrl: string): ServerConfig {
     errors.push('Missing CALLME_USER_PHONE_NUMBER (where to call you)');
   }
 
+  let contacts: Contact[] = [];
+  if (process.env.CALLME_USER_PHONE_NUMBER) {
+    try {
+      contacts = loadContacts(process.env.CALLME_USER_PHONE_NUMBER);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  let conversationStore: ConversationStore | null = null;
+  try {
+    conversationStore = openConversationStore();
+  } catch (error) {
+    // History is optional; calls still work without it
+    log.warn('Cannot open CALLME_HISTORY_DB, history disabled:', error instanceof Error ? error.message : error);
+  }
+
+  let turnStrategy = DEFAULT_TURN_STRATEGY;
+  try {
+    turnStrategy = loadTurnStrategy();
+  } catch (error) {
+    errors.push(`Invalid turn strategy (CALLME_TURN_*): ${error instanceof Error ? error.message : error}`);
+  }
+
+  let dictationRules: DictationRule[] | null = null;
+  if (process.env.CALLME_DICTATION_NORMALIZE === 'true') {
+    try {
+      dictationRules = loadDictationRules();
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  try {
+    providerConfig.sttVocabulary = loadVocabulary();
+  } catch (error) {
+    errors.push(error instanceof Error ? error.message : String(error));
+  }
+
+  let retryPolicy: RetryPolicy | null = null;
+  try {
+    retryPolicy = loadRetryPolicy();
+  } catch (error) {
+    errors.push(`Invalid CALLME_RETRY_ON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  // Optional text channel for the message when nobody picks up
+  let fallbackChannel: TelegramProvider | null = null;
+  const fallbackName = process.env.CALLME_FALLBACK_CHANNEL;
+  if (fallbackName === 'telegram') {
+    if (!process.env.CALLME_TELEGRAM_BOT_TOKEN || !process.env.CALLME_TELEGRAM_CHAT_ID) {
+      errors.push('CALLME_FALLBACK_CHANNEL=telegram requires CALLME_TELEGRAM_BOT_TOKEN and CALLME_TELEGRAM_CHAT_ID');
+    } else {
+      fallbackChannel = new TelegramBotProvider();
+      fallbackChannel.initialize({
+        botToken: process.env.CALLME_TELEGRAM_BOT_TOKEN,
+        chatId: process.env.CALLME_TELEGRAM_CHAT_ID,
+      });
+    }
+  } else if (fallbackName) {
+    errors.push(`Unknown CALLME_FALLBACK_CHANNEL: ${fallbackName} (supported: telegram)`);
+  }
+
   if (errors.length > 0) {
     throw new Error(`Missing required configuration:\n  - ${errors.join('\n  - ')}`);
   }
@@ -113,25 +420,60 @@ export function loadServerConfig(publicUrl: string): ServerConfig {
   // Default 3 minutes for transcript timeout
   const transcriptTimeoutMs = parseInt(process.env.CALLME_TRANSCRIPT_TIMEOUT_MS || '180000', 10);
 
+  // Inbound calls are only accepted from these numbers (defaults to the user's own number)
+  const inboundAllowedNumbers = process.env.CALLME_INBOUND_ALLOWED_NUMBERS
+    ? process.env.CALLME_INBOUND_ALLOWED_NUMBERS.split(',').map(n => n.trim()).filter(Boolean)
+    : [process.env.CALLME_USER_PHONE_NUMBER!];
+
   // Explicit opt-in for insecure mode (skipping webhook signature validation)
   const allowUnsignedWebhooks = process.env.CALLME_ALLOW_UNSIGNED_WEBHOOKS === 'true';
   if (allowUnsignedWebhooks) {
-    console.error('[Security] WARNING: CALLME_ALLOW_UNSIGNED_WEBHOOKS is enabled!');
-    console.error('[Security] Webhook signature validation is DISABLED. Only use for development.');
+    log.warn('[Security] WARNING: CALLME_ALLOW_UNSIGNED_WEBHOOKS is enabled!');
+    log.warn('[Security] Webhook signature validation is DISABLED. Only use for development.');
   }
 
+  const maxConcurrentCalls = parseInt(process.env.CALLME_MAX_CONCURRENT_CALLS || '3', 10);
+
+  // Barge-in is on unless explicitly disabled (e.g. speakerphones that echo TTS back)
+  const bargeIn = process.env.CALLME_BARGE_IN !== 'false';
+
   return {
     publicUrl,
     port: parseInt(process.env.CALLME_PORT || '3333', 10),
     phoneNumber: providerConfig.phoneNumber,
     userPhoneNumber: process.env.CALLME_USER_PHONE_NUMBER!,
+    contacts,
+    maxConcurrentCalls: isNaN(maxConcurrentCalls) || maxConcurrentCalls < 1 ? 3 : maxConcurrentCalls,
+    recordingDir: process.env.CALLME_RECORDING_DIR ? resolvePath(process.env.CALLME_RECORDING_DIR) : null,
+    voiceNotesDir: resolvePath(process.env.CALLME_VOICE_NOTES_DIR || join(homedir(), '.callme', 'voice-notes')),
+    conversationStore,
+    inboundAllowedNumbers,
     providers,
     providerConfig,
     transcriptTimeoutMs,
     allowUnsignedWebhooks,
+    bargeIn,
+    cancelMessage: process.env.CALLME_CANCEL_MESSAGE || null,
+    mergeQueuedSpeech: process.env.CALLME_MERGE_QUEUED_SPEECH === 'true',
+    turnStrategy,
+    dictationRules,
+    retryPolicy: retryPolicy!,
+    fallbackChannel,
   };
 }
 
+/**
+ * Estimate which words of a message were heard before playback stopped.
+ * Uses the played fraction when the total length is known, otherwise a typical speaking rate.
+ */
+function estimateHeardText(text: string, playedSeconds: number, totalSeconds?: number): string {
+  const words = text.trim().split(/\s+/);
+  const heardWords = totalSeconds
+    ? Math.round(words.length * Math.min(1, playedSeconds / totalSeconds))
+    : Math.round(playedSeconds * AUDIO_CONSTANTS.SPOKEN_WORDS_PER_SECOND);
+  return words.slice(0, heardWords).join(' ');
+}
+
 export class CallManager {
   private activeCalls = new Map<string, CallState>();
   private callControlIdToCallId = new Map<string, string>();
@@ -140,6 +482,8 @@ export class CallManager {
   private wss: WebSocketServer | null = null;
   private config: ServerConfig;
   private currentCallId = 0;
+  private inboundWaiter: InboundCallWaiter | null = null;
+  private recordings = new Map<string, CallRecording>();  // Saved recordings of ended calls
 
   constructor(config: ServerConfig) {
     this.config = config;
@@ -171,43 +515,33 @@ export class CallManager {
       if (url.pathname === '/media-stream') {
         // Try to find the call ID from token
         const token = url.searchParams.get('token');
-        let callId = token ? this.wsTokenToCallId.get(token) : null;
+        const callId = token ? this.wsTokenToCallId.get(token) ?? null : null;
 
-        // Validate token if provided
         if (token && callId) {
           const state = this.activeCalls.get(callId);
           if (!state || !validateWebSocketToken(state.wsToken, token)) {
-            console.error('[Security] Rejecting WebSocket: token validation failed');
+            log.warn('[Security] Rejecting WebSocket: token validation failed');
             socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
             socket.destroy();
             return;
           }
+          // Tokens are single-use: a second stream can never attach to (or hijack) this call
+          this.wsTokenToCallId.delete(token);
           console.error(`[Security] WebSocket token validated for call ${callId}`);
-        } else if (!callId) {
-          // Token missing or not found - only allow fallback if explicitly opted in
-          if (this.config.allowUnsignedWebhooks) {
-            // Fallback: find the most recent active call (insecure mode)
-            // Token lookup can fail due to timing issues with some tunnel providers
-            const activeCallIds = Array.from(this.activeCalls.keys());
-            if (activeCallIds.length > 0) {
-              callId = activeCallIds[activeCallIds.length - 1];
-              console.error(`[WebSocket] Token not found, using fallback call ID: ${callId} (INSECURE MODE)`);
-            } else {
-              // No active calls yet - create a placeholder and accept anyway
-              callId = `pending-${Date.now()}`;
-              console.error(`[WebSocket] No active calls, using placeholder: ${callId} (INSECURE MODE)`);
-            }
-          } else {
-            console.error('[Security] Rejecting WebSocket: missing or invalid token');
-            console.error('[Security] Set CALLME_ALLOW_UNSIGNED_WEBHOOKS=true to disable this check (insecure)');
-            socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
-            socket.destroy();
-            return;
-          }
+        } else if (this.config.allowUnsignedWebhooks) {
+          // Token lookup can fail due to timing issues with some tunnel providers.
+          // The stream is bound later using the call ID in its "start" event, never by guessing.
+          log.warn('[WebSocket] Token missing or unknown, binding by call ID from the start event (INSECURE MODE)');
+        } else {
+          log.warn('[Security] Rejecting WebSocket: missing or invalid token');
+          console.error('[Security] Set CALLME_ALLOW_UNSIGNED_WEBHOOKS=true to disable this check (insecure)');
+          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+          socket.destroy();
+          return;
         }
 
         // Accept WebSocket connection
-        console.error(`[WebSocket] Accepting connection for: ${callId}`);
+        console.error(`[WebSocket] Accepting connection for: ${callId ?? 'unbound stream'}`);
         this.wss!.handleUpgrade(request, socket, head, (ws) => {
           this.wss!.emit('connection', ws, request, callId);
         });
@@ -216,13 +550,14 @@ export class CallManager {
       }
     });
 
-    this.wss.on('connection', (ws: WebSocket, _request: IncomingMessage, callId: string) => {
-      console.error(`Media stream WebSocket connected for call ${callId}`);
+    this.wss.on('connection', (ws: WebSocket, _request: IncomingMessage, callId: string | null) => {
+      console.error(`Media stream WebSocket connected for call ${callId ?? '(unbound)'}`);
 
-      // Associate the WebSocket with the call immediately (token already validated)
-      const state = this.activeCalls.get(callId);
-      if (state) {
-        state.ws = ws;
+      // Each socket is bound to exactly one call, and audio only ever flows to that call's STT session
+      let state: CallState | null = callId ? this.bindMediaStream(callId, ws) : null;
+      if (callId && !state) {
+        ws.close();
+        return;
       }
 
       ws.on('message', (message: Buffer | string) => {
@@ -232,37 +567,62 @@ export class CallManager {
         if (msgBuffer.length > 0 && msgBuffer[0] === 0x7b) {
           try {
             const msg = JSON.parse(msgBuffer.toString()) as TwilioMediaMessage;
-            const msgState = this.activeCalls.get(callId);
+
+            // Unauthenticated streams (insecure mode) are bound by the call ID in their start event
+            if (msg.event === 'start' && !state) {
+              const startedCallControlId = msg.start?.callSid ?? msg.start?.call_control_id;
+              const startedCallId = startedCallControlId ? this.callControlIdToCallId.get(startedCallControlId) : undefined;
+              state = startedCallId ? this.bindMediaStream(startedCallId, ws) : null;
+              if (!state) {
+                console.error(`[WebSocket] Closing stream for unknown call: ${startedCallControlId}`);
+                ws.close();
+                return;
+              }
+            }
+
+            if (!state) return;
 
             // Capture streamSid from "start" event (required for sending audio back)
-            if (msg.event === 'start' && msg.streamSid && msgState) {
-              msgState.streamSid = msg.streamSid;
-              console.error(`[${callId}] Captured streamSid: ${msg.streamSid}`);
+            if (msg.event === 'start' && msg.streamSid && !state.streamSid) {
+              state.streamSid = msg.streamSid;
+              console.error(`[${state.callId}] Captured streamSid: ${msg.streamSid}`);
+            }
+
+            // Ignore events that claim to belong to another stream
+            if (msg.streamSid && state.streamSid && msg.streamSid !== state.streamSid) {
+              console.error(`[${state.callId}] Ignoring ${msg.event} event for stream ${msg.streamSid}`);
+              return;
+            }
+
+            // Twilio forwards keypad presses on the media stream
+            if (msg.event === 'dtmf' && msg.streamSid && msg.dtmf?.digit) {
+              this.handleDtmf(state, msg.dtmf.digit);
             }
 
             // Handle "stop" event when call ends
-            if (msg.event === 'stop' && msgState) {
-              console.error(`[${callId}] Stream stopped`);
-              msgState.hungUp = true;
+            if (msg.event === 'stop') {
+              console.error(`[${state.callId}] Stream stopped`);
+              state.hungUp = true;
             }
           } catch (error) {
             // Log parse errors but continue - malformed messages shouldn't crash the server
-            console.error(`[${callId}] Failed to parse WebSocket message:`, error);
+            log.error(`[${state?.callId ?? 'WebSocket'}] Failed to parse WebSocket message:`, error);
           }
         }
 
-        // Forward audio to realtime transcription session
-        const audioState = this.activeCalls.get(callId);
-        if (audioState?.sttSession) {
+        // Forward audio to this stream's own transcription session
+        if (state?.sttSession && this.activeCalls.get(state.callId) === state) {
           const audioData = this.extractInboundAudio(msgBuffer);
           if (audioData) {
-            audioState.sttSession.sendAudio(audioData);
+            state.sttSession.sendAudio(audioData);
+            state.recorder?.addInbound(audioData);
+            state.voiceNoteAudio?.push(audioData);
           }
         }
       });
 
       ws.on('close', () => {
-        console.error('Media stream WebSocket closed');
+        console.error(`[${state?.callId ?? 'WebSocket'}] Media stream WebSocket closed`);
       });
     });
 
@@ -271,6 +631,24 @@ export class CallManager {
     });
   }
 
+  /**
+   * Attach a media stream WebSocket to its call. A call accepts only one stream.
+   * @returns The call state, or null if the call is gone or already has a stream
+   */
+  private bindMediaStream(callId: string, ws: WebSocket): CallState | null {
+    const state = this.activeCalls.get(callId);
+    if (!state) {
+      console.error(`[WebSocket] No active call ${callId} for media stream`);
+      return null;
+    }
+    if (state.ws) {
+      log.warn(`[Security] Rejecting second media stream for call ${callId}`);
+      return null;
+    }
+    state.ws = ws;
+    return state;
+  }
+
   /**
    * Extract INBOUND audio data from WebSocket message (filters out outbound/TTS audio)
    */
@@ -293,7 +671,7 @@ export class CallManager {
       }
     } catch (error) {
       // Log but don't crash - malformed audio messages are recoverable
-      console.error('[Audio] Failed to parse media message:', error);
+      log.error('[Audio] Failed to parse media message:', error);
     }
 
     return null;
@@ -315,22 +693,22 @@ export class CallManager {
             const timestamp = req.headers['telnyx-timestamp'] as string | undefined;
 
             if (!validateTelnyxSignature(telnyxPublicKey, signature, timestamp, body)) {
-              console.error('[Security] Rejecting Telnyx webhook: invalid signature');
+              log.warn('[Security] Rejecting Telnyx webhook: invalid signature');
               res.writeHead(401);
               res.end('Invalid signature');
               return;
             }
           } else if (!this.config.allowUnsignedWebhooks) {
             // Warn strongly but don't block - Telnyx webhooks work without signature
-            console.error('[Security] WARNING: CALLME_TELNYX_PUBLIC_KEY not set!');
-            console.error('[Security] Webhook signature verification is DISABLED for Telnyx.');
+            log.warn('[Security] WARNING: CALLME_TELNYX_PUBLIC_KEY not set!');
+            log.warn('[Security] Webhook signature verification is DISABLED for Telnyx.');
             console.error('[Security] Get your public key from: Mission Control > Account Settings > Keys & Credentials');
           }
 
           const event = JSON.parse(body) as TelnyxWebhookEvent;
           await this.handleTelnyxWebhook(event, res);
         } catch (error) {
-          console.error('Error parsing webhook:', error);
+          log.error('Error parsing webhook:', error);
           res.writeHead(400);
           res.end('Invalid JSON');
         }
@@ -355,9 +733,9 @@ export class CallManager {
           if (!validateTwilioSignature(authToken, signature, webhookUrl, params)) {
             if (this.config.allowUnsignedWebhooks) {
               // Explicit opt-in to insecure mode
-              console.error('[Security] Twilio signature validation failed (INSECURE MODE - proceeding anyway)');
+              log.warn('[Security] Twilio signature validation failed (INSECURE MODE - proceeding anyway)');
             } else {
-              console.error('[Security] Rejecting Twilio webhook: invalid signature');
+              log.warn('[Security] Rejecting Twilio webhook: invalid signature');
               console.error('[Security] Set CALLME_ALLOW_UNSIGNED_WEBHOOKS=true to disable this check (insecure)');
               res.writeHead(401);
               res.end('Invalid signature');
@@ -367,7 +745,7 @@ export class CallManager {
 
           await this.handleTwilioWebhook(params, res);
         } catch (error) {
-          console.error('Error parsing Twilio webhook:', error);
+          log.error('Error parsing Twilio webhook:', error);
           res.writeHead(400);
           res.end('Invalid form data');
         }
@@ -376,7 +754,7 @@ export class CallManager {
     }
 
     // Fallback: Reject unknown content types
-    console.error('[Security] Rejecting webhook with unknown content type:', contentType);
+    log.warn('[Security] Rejecting webhook with unknown content type:', contentType);
     res.writeHead(400);
     res.end('Invalid content type');
   }
@@ -384,11 +762,22 @@ export class CallManager {
   private async handleTwilioWebhook(params: URLSearchParams, res: ServerResponse): Promise<void> {
     const callSid = params.get('CallSid');
     const callStatus = params.get('CallStatus');
+    const direction = params.get('Direction');
+
+    console.error(`Twilio webhook: CallSid=${callSid}, CallStatus=${callStatus}, Direction=${direction}`);
 
-    console.error(`Twilio webhook: CallSid=${callSid}, CallStatus=${callStatus}`);
+    // Inbound call to our number that we haven't seen yet
+    if (callSid && callStatus === 'ringing' && direction === 'inbound' && !this.callControlIdToCallId.has(callSid)) {
+      const state = await this.acceptInboundCall(callSid, params.get('From') || '', params.get('To') || '');
+      if (!state) {
+        res.writeHead(200, { 'Content-Type': 'application/xml' });
+        res.end('<?xml version="1.0" encoding="UTF-8"?><Response><Reject /></Response>');
+        return;
+      }
+    }
 
     // Handle call status updates
-    if (callStatus === 'completed' || callStatus === 'busy' || callStatus === 'no-answer' || callStatus === 'failed') {
+    if (callStatus === 'completed' || callStatus === 'busy' || callStatus === 'no-answer' || callStatus === 'failed' || callStatus === 'canceled') {
       // Call ended - find and mark as hung up
       if (callSid) {
         const callId = this.callControlIdToCallId.get(callSid);
@@ -396,6 +785,7 @@ export class CallManager {
           this.callControlIdToCallId.delete(callSid);
           const state = this.activeCalls.get(callId);
           if (state) {
+            state.endReason = classifyTwilioStatus(callStatus, state.answered);
             state.hungUp = true;
             state.ws?.close();
           }
@@ -406,6 +796,39 @@ export class CallManager {
       return;
     }
 
+    if (callSid && callStatus === 'ringing') {
+      const ringingCallId = this.callControlIdToCallId.get(callSid);
+      const ringingState = ringingCallId ? this.activeCalls.get(ringingCallId) : undefined;
+      if (ringingState?.direction === 'outbound') {
+        this.reportProgress(ringingState, 'ringing', 'Ringing');
+      }
+    }
+
+    if (callSid && callStatus === 'in-progress') {
+      const answeredCallId = this.callControlIdToCallId.get(callSid);
+      const answeredState = answeredCallId ? this.activeCalls.get(answeredCallId) : undefined;
+      if (answeredState && !answeredState.answered) {
+        answeredState.answered = true;
+        this.reportProgress(answeredState, 'answered', 'Call answered');
+      }
+    }
+
+    // Async answering machine detection result (DetectMessageEnd reports after the greeting)
+    const answeredBy = params.get('AnsweredBy');
+    if (callSid && answeredBy && !callStatus) {
+      const amdCallId = this.callControlIdToCallId.get(callSid);
+      const amdState = amdCallId ? this.activeCalls.get(amdCallId) : undefined;
+      if (amdState) {
+        console.error(`[${amdCallId}] AMD result: ${answeredBy}`);
+        const isMachine = answeredBy.startsWith('machine') || answeredBy === 'fax';
+        amdState.answeredBy = isMachine ? 'machine' : 'human';
+        amdState.greetingEnded = answeredBy.startsWith('machine_end');
+      }
+      res.writeHead(200, { 'Content-Type': 'application/xml' });
+      res.end('<?xml version="1.0" encoding="UTF-8"?><Response></Response>');
+      return;
+    }
+
     // For 'in-progress' or 'ringing' status, return TwiML to start media stream
     // Include security token in the stream URL
     let streamUrl = `wss://${new URL(this.config.publicUrl).host}/media-stream`;
@@ -441,6 +864,21 @@ export class CallManager {
     try {
       switch (eventType) {
         case 'call.initiated':
+          if (event.data.payload.direction === 'incoming') {
+            const { from = '', to = '' } = event.data.payload;
+            const inboundState = await this.acceptInboundCall(callControlId, from, to);
+            if (inboundState) {
+              await this.config.providers.phone.answerCall(callControlId);
+              console.error(`Answered inbound call ${callControlId} from ${from}`);
+            } else {
+              await this.config.providers.phone.hangup(callControlId);
+            }
+          } else {
+            // Telnyx has no separate ringing event for outbound calls
+            const ringingCallId = this.callControlIdToCallId.get(callControlId);
+            const ringingState = ringingCallId ? this.activeCalls.get(ringingCallId) : undefined;
+            if (ringingState) this.reportProgress(ringingState, 'ringing', 'Ringing');
+          }
           break;
 
         case 'call.answered':
@@ -450,6 +888,8 @@ export class CallManager {
           if (callId) {
             const state = this.activeCalls.get(callId);
             if (state) {
+              state.answered = true;
+              this.reportProgress(state, 'answered', 'Call answered');
               streamUrl += `?token=${encodeURIComponent(state.wsToken)}`;
             }
           }
@@ -463,6 +903,9 @@ export class CallManager {
             this.callControlIdToCallId.delete(callControlId);
             const hangupState = this.activeCalls.get(hangupCallId);
             if (hangupState) {
+              const { hangup_cause, hangup_source } = event.data.payload;
+              console.error(`[${hangupCallId}] Hangup: cause=${hangup_cause}, source=${hangup_source}`);
+              hangupState.endReason = classifyTelnyxHangup(hangup_cause, hangup_source, hangupState.answered);
               hangupState.hungUp = true;
               hangupState.ws?.close();
             }
@@ -472,6 +915,21 @@ export class CallManager {
         case 'call.machine.detection.ended':
           const result = event.data?.payload?.result;
           console.error(`AMD result: ${result}`);
+          const amdCallId = this.callControlIdToCallId.get(callControlId);
+          const amdState = amdCallId ? this.activeCalls.get(amdCallId) : undefined;
+          if (amdState) {
+            // 'not_sure' is treated as a human so real people are never sent to the voicemail path
+            amdState.answeredBy = result === 'machine' || result === 'fax_detected' ? 'machine' : 'human';
+          }
+          break;
+
+        case 'call.machine.greeting.ended':
+          console.error(`Voicemail greeting ended: ${event.data?.payload?.result}`);
+          const greetingCallId = this.callControlIdToCallId.get(callControlId);
+          const greetingState = greetingCallId ? this.activeCalls.get(greetingCallId) : undefined;
+          if (greetingState) {
+            greetingState.greetingEnded = true;
+          }
           break;
 
         case 'streaming.started':
@@ -487,19 +945,48 @@ export class CallManager {
 
         case 'streaming.stopped':
           break;
+
+        case 'call.dtmf.received':
+          const dtmfCallId = this.callControlIdToCallId.get(callControlId);
+          const dtmfState = dtmfCallId ? this.activeCalls.get(dtmfCallId) : undefined;
+          if (dtmfState && event.data.payload.digit) {
+            this.handleDtmf(dtmfState, event.data.payload.digit);
+          }
+          break;
       }
     } catch (error) {
-      console.error(`Error handling webhook ${eventType}:`, error);
+      log.error(`Error handling webhook ${eventType}:`, error);
+    }
+  }
+
+  /**
+   * Fail fast when another call would exceed CALLME_MAX_CONCURRENT_CALLS
+   */
+  private assertCallCapacity(): void {
+    const max = this.config.maxConcurrentCalls;
+    if (this.activeCalls.size >= max) {
+      const active = Array.from(this.activeCalls.keys()).join(', ');
+      throw new Error(
+        `Call limit reached: ${this.activeCalls.size} of ${max} calls are active (${active}). ` +
+        'End a call with end_call first, or raise CALLME_MAX_CONCURRENT_CALLS.'
+      );
     }
   }
 
-  async initiateCall(message: string): Promise<{ callId: string; response: string }> {
+  /**
+   * Create and register the state for a new call, with its own connected STT session.
+   * The call is registered before connecting so concurrent setups count against the limit.
+   */
+  private async createCallState(
+    userPhoneNumber: string,
+    direction: CallState['direction'],
+    contact: Contact | null
+  ): Promise<CallState> {
+    this.assertCallCapacity();
     const callId = `call-${++this.currentCallId}-${Date.now()}`;
 
     // Create realtime transcription session via provider
-    const sttSession = this.config.providers.stt.createSession();
-    await sttSession.connect();
-    console.error(`[${callId}] STT session connected`);
+    const sttSession = this.config.providers.stt.createSession({ language: contact?.language });
 
     // Generate secure token for WebSocket authentication
     const wsToken = generateWebSocketToken();
@@ -507,7 +994,9 @@ export class CallManager {
     const state: CallState = {
       callId,
       callControlId: null,
-      userPhoneNumber: this.config.userPhoneNumber,
+      direction,
+      userPhoneNumber,
+      contact,
       ws: null,
       streamSid: null,
       streamingReady: false,
@@ -517,13 +1006,154 @@ export class CallManager {
       hungUp: false,
       sttSession,
       hangupCheckInterval: null,
+      recorder: this.config.recordingDir
+        ? new CallRecorder(CallRecorder.pathFor(this.config.recordingDir, callId))
+        : null,
+      pendingDigits: [],
+      onDigit: null,
+      speaking: false,
+      interrupted: false,
+      answeredBy: null,
+      greetingEnded: false,
+      // We pick up inbound calls ourselves
+      answered: direction === 'inbound',
+      endReason: null,
+      progress: null,
+      speechSegments: [],
+      saidWhileBusy: [],
+      turnStrategy: this.config.turnStrategy,
+      voiceNoteAudio: null,
     };
 
+    sttSession.onSpeechStart(() => {
+      state.speechSegments.push({ startSeconds: this.callSeconds(state), endSeconds: null, text: '', final: false });
+
+      // Barge-in: the user talking over TTS playback cuts it short
+      if (state.speaking && this.config.bargeIn) {
+        console.error(`[${callId}] User started talking, interrupting playback`);
+        state.interrupted = true;
+      }
+    });
+    sttSession.onSpeechEnd(() => {
+      const segment = state.speechSegments.find((s) => s.endSeconds === null);
+      if (segment) segment.endSeconds = this.callSeconds(state);
+    });
+    sttSession.onSpeechDropped(() => {
+      // No transcript is coming for the oldest open segment, so the next one mustn't land on it
+      const index = state.speechSegments.findIndex((s) => !s.final);
+      if (index !== -1) state.speechSegments.splice(index, 1);
+    });
+    sttSession.onPartial((partial) => {
+      const segment = state.speechSegments.find((s) => !s.final);
+      if (segment) segment.text = partial;
+      this.reportProgress(state, 'partial_transcript', `Heard so far: ${partial}`);
+    });
+
     this.activeCalls.set(callId, state);
+    this.config.conversationStore?.startConversation({
+      id: callId,
+      channel: 'phone',
+      direction,
+      participantName: contact?.name ?? null,
+      participantAddress: userPhoneNumber,
+      startedAt: state.startTime,
+    });
+
+    try {
+      await sttSession.connect();
+    } catch (error) {
+      state.endReason = 'STT_UNAVAILABLE';
+      this.cleanupCallState(state);
+      throw toCallError(error, 'STT_UNAVAILABLE');
+    }
+    console.error(`[${callId}] STT session connected`);
+
+    return state;
+  }
+
+  /**
+   * Call the user (or a named contact), redialing according to the retry policy if the call doesn't connect.
+   * If every attempt fails to connect the outcome is returned (not thrown), after
+   * sending the message to the fallback channel when one is configured. Failures
+   * after the call connected (e.g. the user hanging up) are thrown as CallError.
+   */
+  async initiateCall(message: string, options: InitiateCallOptions = {}): Promise<InitiateCallResult> {
+    const { maxAttempts, delayMs, retryOn } = this.config.retryPolicy;
+    const contact = this.resolveContact(options.contact);
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(options.signal);
+      try {
+        return await this.attemptCall(contact, message, options);
+      } catch (error) {
+        if (!(error instanceof CallError) || !isDialFailure(error.code)) throw error;
+
+        if (attempt < maxAttempts && retryOn.includes(error.code)) {
+          log.warn(`Call attempt ${attempt}/${maxAttempts} failed (${error.code}), retrying in ${Math.round(delayMs / 1000)}s`);
+          await delay(delayMs, options.signal);
+          continue;
+        }
+
+        log.error(`Call failed after ${attempt} attempt(s): ${error.code}`);
+        // The fallback channel reaches the user, so it's no use for missed calls to teammates
+        const fallbackSent = contact === findContact(this.config.contacts, DEFAULT_CONTACT_NAME)
+          ? await this.sendFallbackMessage(message, error.code)
+          : false;
+        return { status: 'unreachable', outcome: error.code, attempts: attempt, fallbackSent };
+      }
+    }
+  }
+
+  /**
+   * Look up who to call in the contacts directory
+   * @param name Contact name (default: the user)
+   * @throws Error if the contact is unknown or doesn't take calls right now
+   */
+  private resolveContact(name: string = DEFAULT_CONTACT_NAME): Contact {
+    const contact = findContact(this.config.contacts, name);
+    if (!contact) {
+      const names = this.config.contacts.map((c) => c.name).join(', ');
+      throw new Error(`Unknown contact "${name}". Known contacts: ${names}`);
+    }
+
+    if (!isWithinAllowedHours(contact)) {
+      throw new Error(`${contact.name} only takes calls ${formatAllowedHours(contact)}`);
+    }
+
+    return contact;
+  }
+
+  /**
+   * Send the call's message as text when the call couldn't get through
+   * @returns True if the message was delivered
+   */
+  private async sendFallbackMessage(message: string, outcome: DialFailureCode): Promise<boolean> {
+    const fallback = this.config.fallbackChannel;
+    if (!fallback) return false;
+
+    try {
+      await fallback.sendMessage(`Missed call from Claude (${CALL_OUTCOME_DESCRIPTIONS[outcome].toLowerCase()}):\n\n${message}`);
+      console.error(`Sent call message via ${fallback.name} fallback`);
+      return true;
+    } catch (error) {
+      log.error(`Fallback message via ${fallback.name} failed:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Place a single outbound call and deliver the opening message
+   * @throws CallError if the call doesn't connect
+   */
+  private async attemptCall(contact: Contact, message: string, options: InitiateCallOptions): Promise<InitiateCallResult> {
+    options.onProgress?.('dialing', `Dialing ${contact.name} (${contact.phoneNumber})`);
+    const state = await this.createCallState(contact.phoneNumber, 'outbound', contact);
+    const { callId, wsToken } = state;
+    state.progress = options.onProgress ?? null;
 
     try {
       const callControlId = await this.config.providers.phone.initiateCall(
-        this.config.userPhoneNumber,
+        contact.phoneNumber,
         this.config.phoneNumber,
         `${this.config.publicUrl}/twiml`
       );
@@ -532,122 +1162,761 @@ export class CallManager {
       this.callControlIdToCallId.set(callControlId, callId);
       this.wsTokenToCallId.set(wsToken, callId);
 
-      console.error(`Call initiated: ${callControlId} -> ${this.config.userPhoneNumber}`);
+      console.error(`Call initiated: ${callControlId} -> ${contact.name} (${contact.phoneNumber})`);
 
       // Start TTS generation in parallel with waiting for connection
       // This reduces latency by generating audio while Twilio establishes the stream
-      const ttsPromise = this.generateTTSAudio(message);
+      const ttsPromise = this.generateTTSAudio(message, { voice: contact.voice });
 
-      await this.waitForConnection(callId, TIMEOUT_CONSTANTS.WS_CONNECTION_TIMEOUT_MS);
+      await this.waitForConnection(state, options.signal);
 
-      // Send the pre-generated audio and listen for response
-      const audioData = await ttsPromise;
-      await this.sendPreGeneratedAudio(state, audioData);
-      const response = await this.listen(state);
-      state.conversationHistory.push({ speaker: 'claude', message });
-      state.conversationHistory.push({ speaker: 'user', message: response });
+      // Don't start talking until we know whether a person or a machine answered
+      await this.waitUntil(() => state.answeredBy !== null || state.hungUp, TIMEOUT_CONSTANTS.AMD_RESULT_TIMEOUT_MS);
+      if (state.answeredBy === 'machine') {
+        return await this.handleVoicemail(state, message, options, ttsPromise);
+      }
 
-      return { callId, response };
+      // No result yet: a machine may still be reported once its greeting ends
+      const lateMachine = this.watchForLateMachine(state);
+      try {
+        // Send the pre-generated audio and listen for response
+        const audioData = await ttsPromise;
+        const interruption = await this.sendPreGeneratedAudio(state, message, audioData);
+        if (!lateMachine.signal.aborted) {
+          const listenSignal = options.signal ? AbortSignal.any([options.signal, lateMachine.signal]) : lateMachine.signal;
+          const response = await this.listen(state, listenSignal);
+          this.recordUtterance(state, 'claude', message);
+          this.recordUtterance(state, 'user', response);
+
+          return { status: 'connected', callId, response, interruption, ...this.heardSpeech(state) };
+        }
+      } catch (error) {
+        if (!lateMachine.signal.aborted || options.signal?.aborted) throw error;
+      } finally {
+        lateMachine.stop();
+      }
+      return await this.handleVoicemail(state, message, options, ttsPromise);
     } catch (error) {
+      if (error instanceof CallError) {
+        state.endReason = state.endReason ?? error.code;
+      }
+      // Claude won't get a call ID to continue with, so a cancelled call is hung up
+      if (isAbortError(error, options.signal)) {
+        await this.sayCancelMessage(state);
+        if (state.callControlId && !state.hungUp) {
+          await this.config.providers.phone.hangup(state.callControlId).catch(() => {});
+        }
+        state.endReason = 'CANCELLED';
+      }
       // Clean up all state on error
       this.cleanupCallState(state);
       throw error;
+    } finally {
+      state.progress = null;
     }
   }
 
   /**
-   * Clean up all state associated with a call
+   * Watch for an answering machine reported after we started talking (Twilio only
+   * reports one once the greeting has ended). Playback stops and the returned
+   * signal aborts when it arrives.
    */
-  private cleanupCallState(state: CallState): void {
-    // Clear any active intervals
-    if (state.hangupCheckInterval) {
-      clearInterval(state.hangupCheckInterval);
-      state.hangupCheckInterval = null;
-    }
-
-    // Close sessions
-    state.sttSession?.close();
-    state.ws?.close();
-
-    // Clean up mappings
-    this.wsTokenToCallId.delete(state.wsToken);
-    if (state.callControlId) {
-      this.callControlIdToCallId.delete(state.callControlId);
-    }
-    this.activeCalls.delete(state.callId);
-  }
-
-  async continueCall(callId: string, message: string): Promise<string> {
-    const state = this.activeCalls.get(callId);
-    if (!state) throw new Error(`No active call: ${callId}`);
-
-    const response = await this.speakAndListen(state, message);
-    state.conversationHistory.push({ speaker: 'claude', message });
-    state.conversationHistory.push({ speaker: 'user', message: response });
-
-    return response;
+  private watchForLateMachine(state: CallState): { signal: AbortSignal; stop: () => void } {
+    const controller = new AbortController();
+    const interval = setInterval(() => {
+      if (state.answeredBy === null) return;
+      clearInterval(interval);
+      if (state.answeredBy === 'machine') {
+        console.error(`[${state.callId}] Answering machine detected after the message started`);
+        state.interrupted = true;
+        controller.abort();
+      }
+    }, TIMEOUT_CONSTANTS.HANGUP_CHECK_INTERVAL_MS);
+    return { signal: controller.signal, stop: () => clearInterval(interval) };
   }
 
-  async speakOnly(callId: string, message: string): Promise<void> {
-    const state = this.activeCalls.get(callId);
-    if (!state) throw new Error(`No active call: ${callId}`);
-
-    await this.speak(state, message);
-    state.conversationHistory.push({ speaker: 'claude', message });
-  }
+  /**
+   * An answering machine picked up: leave a message after the beep (or not) and hang up
+   */
+  private async handleVoicemail(
+    state: CallState,
+    message: string,
+    options: InitiateCallOptions,
+    ttsPromise: Promise<Buffer>
+  ): Promise<InitiateCallResult> {
+    const action = options.voicemail ?? 'leave_message';
+    console.error(`[${state.callId}] Reached voicemail (${action})`);
+
+    // The opening message's audio goes unused unless it is also the voicemail; a failed synthesis doesn't matter then
+    if (action !== 'leave_message' || options.voicemailMessage) {
+      ttsPromise.catch(() => {});
+    }
 
-  async endCall(callId: string, message: string): Promise<{ durationSeconds: number }> {
-    const state = this.activeCalls.get(callId);
-    if (!state) throw new Error(`No active call: ${callId}`);
+    if (action === 'leave_message') {
+      const voicemailMessage = options.voicemailMessage || message;
+      const audioData = options.voicemailMessage
+        ? await this.generateTTSAudio(voicemailMessage, { voice: state.contact?.voice })
+        : await ttsPromise;
 
-    await this.speak(state, message);
+      if (!await this.waitUntil(() => state.greetingEnded || state.hungUp, TIMEOUT_CONSTANTS.VOICEMAIL_BEEP_TIMEOUT_MS)) {
+        console.error(`[${state.callId}] No beep detected, leaving message anyway`);
+      }
 
-    // Wait for audio to finish playing before hanging up (prevent cutoff)
-    await new Promise((resolve) => setTimeout(resolve, TIMEOUT_CONSTANTS.HANGUP_AUDIO_DELAY_MS));
+      if (!state.hungUp) {
+        this.beginPlayback(state, false);
+        try {
+          await this.sendPacedAudio(state, audioData);
+        } finally {
+          state.speaking = false;
+        }
+        this.recordUtterance(state, 'claude', voicemailMessage);
+        await new Promise((resolve) => setTimeout(resolve, TIMEOUT_CONSTANTS.HANGUP_AUDIO_DELAY_MS));
+      }
+    }
 
-    // Hang up the call via phone provider
-    if (state.callControlId) {
+    if (state.callControlId && !state.hungUp) {
       await this.config.providers.phone.hangup(state.callControlId);
     }
-
     state.hungUp = true;
     const durationSeconds = Math.round((Date.now() - state.startTime) / 1000);
-
-    // Clean up all state
     this.cleanupCallState(state);
 
-    return { durationSeconds };
-  }
-
-  private async waitForConnection(callId: string, timeout: number = TIMEOUT_CONSTANTS.WS_CONNECTION_TIMEOUT_MS): Promise<void> {
-    const startTime = Date.now();
-    while (Date.now() - startTime < timeout) {
-      const state = this.activeCalls.get(callId);
-      // Wait for WebSocket AND streaming to be ready:
-      // - Twilio: streamSid is set from "start" WebSocket event
-      // - Telnyx: streamingReady is set from "streaming.started" webhook
-      const wsReady = state?.ws && state.ws.readyState === WebSocket.OPEN;
-      const streamReady = state?.streamSid || state?.streamingReady;
-      if (wsReady && streamReady) {
-        return;
-      }
-      await new Promise((resolve) => setTimeout(resolve, TIMEOUT_CONSTANTS.HANGUP_CHECK_INTERVAL_MS));
-    }
-    throw new Error('WebSocket connection timeout');
+    return {
+      status: 'voicemail',
+      callId: state.callId,
+      voicemail: action === 'leave_message' ? 'left_message' : 'hung_up',
+      durationSeconds,
+    };
   }
 
   /**
-   * Pre-generate TTS audio (can run in parallel with connection setup)
-   * Returns mu-law encoded audio ready to send to Twilio
+   * Wait for the user to phone in, then listen for their first utterance.
+   * Only one wait can be pending at a time; inbound calls arriving while
+   * nobody is waiting are rejected.
    */
-  private async generateTTSAudio(text: string): Promise<Buffer> {
-    console.error(`[TTS] Generating audio for: ${text.substring(0, 50)}...`);
-    const tts = this.config.providers.tts;
-    const pcmData = await tts.synthesize(text);
-    const resampledPcm = resample24kTo8k(pcmData);
-    const muLawData = pcmToMuLaw(resampledPcm);
-    console.error(`[TTS] Audio generated: ${muLawData.length} bytes`);
-    return muLawData;
+  async waitForInboundCall(
+    greeting?: string,
+    timeoutMs: number = TIMEOUT_CONSTANTS.INBOUND_WAIT_TIMEOUT_MS,
+    request: CallRequestOptions = {}
+  ): Promise<{ callId: string; from: string; response: string } & HeardSpeech> {
+    const { signal } = request;
+    throwIfAborted(signal);
+    if (this.inboundWaiter) {
+      throw new Error('Already waiting for an inbound call');
+    }
+    this.assertCallCapacity();
+
+    console.error(`Waiting up to ${Math.round(timeoutMs / 1000)}s for an inbound call to ${this.config.phoneNumber}...`);
+
+    const state = await new Promise<CallState>((resolve, reject) => {
+      // Once a caller has claimed the waiter, the call is set up anyway: the timeout
+      // no longer applies and an abort is handled after it connects
+      const timeout = setTimeout(() => {
+        if (this.inboundWaiter !== waiter) return;
+        this.inboundWaiter = null;
+        waiter.reject(new Error(`No inbound call received within ${Math.round(timeoutMs / 1000)}s`));
+      }, timeoutMs);
+
+      const waiter: InboundCallWaiter = {
+        settled: false,
+        resolve: (inboundState) => {
+          waiter.settled = true;
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(inboundState);
+        },
+        reject: (error) => {
+          waiter.settled = true;
+          clearTimeout(timeout);
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      };
+
+      const onAbort = () => {
+        if (this.inboundWaiter !== waiter) return;
+        this.inboundWaiter = null;
+        waiter.reject(abortError());
+      };
+
+      this.inboundWaiter = waiter;
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    state.progress = request.onProgress ?? null;
+    this.reportProgress(state, 'answered', `Inbound call from ${state.userPhoneNumber}`);
+
+    try {
+      await this.waitForConnection(state, signal);
+
+      if (greeting) {
+        await this.speak(state, greeting);
+        this.recordUtterance(state, 'claude', greeting);
+      }
+
+      const response = await this.listen(state, signal);
+      this.recordUtterance(state, 'user', response);
+
+      return { callId: state.callId, from: state.userPhoneNumber, response, ...this.heardSpeech(state) };
+    } catch (error) {
+      if (error instanceof CallError) {
+        state.endReason = state.endReason ?? error.code;
+      }
+      if (isAbortError(error, signal)) {
+        await this.sayCancelMessage(state);
+        state.endReason = 'CANCELLED';
+      }
+      if (state.callControlId && !state.hungUp) {
+        await this.config.providers.phone.hangup(state.callControlId);
+      }
+      this.cleanupCallState(state);
+      throw error;
+    } finally {
+      state.progress = null;
+    }
+  }
+
+  /**
+   * Decide whether to take an inbound call and, if so, hand it to the pending waiter.
+   * @returns The new call state, or null if the call should be rejected
+   */
+  private async acceptInboundCall(callControlId: string, from: string, to: string): Promise<CallState | null> {
+    const waiter = this.inboundWaiter;
+    if (!waiter) {
+      console.error(`Rejecting inbound call from ${from}: not waiting for inbound calls`);
+      return null;
+    }
+
+    if (normalizePhoneNumber(to) !== normalizePhoneNumber(this.config.phoneNumber)) {
+      console.error(`Rejecting inbound call to ${to}: not ${this.config.phoneNumber}`);
+      return null;
+    }
+
+    const allowed = this.config.inboundAllowedNumbers.some(
+      (number) => normalizePhoneNumber(number) === normalizePhoneNumber(from)
+    );
+    if (!allowed) {
+      console.error(`[Security] Rejecting inbound call from ${from}: not in CALLME_INBOUND_ALLOWED_NUMBERS`);
+      return null;
+    }
+
+    // Claim the waiter before any await so a second caller can't take it too
+    this.inboundWaiter = null;
+
+    try {
+      const state = await this.createCallState(from, 'inbound', findContactByNumber(this.config.contacts, from) ?? null);
+      if (waiter.settled) {
+        // The wait already ended while the call was being set up; nobody would own the call
+        console.error(`Rejecting inbound call from ${from}: no longer waiting for it`);
+        this.cleanupCallState(state);
+        return null;
+      }
+      state.callControlId = callControlId;
+      this.callControlIdToCallId.set(callControlId, state.callId);
+      this.wsTokenToCallId.set(state.wsToken, state.callId);
+
+      console.error(`Inbound call accepted: ${from} -> ${callControlId}`);
+      waiter.resolve(state);
+      return state;
+    } catch (error) {
+      waiter.reject(error instanceof Error ? error : new Error(String(error)));
+      return null;
+    }
+  }
+
+  /**
+   * Route the call's progress to the tool call that's currently driving it
+   */
+  private async withRequest<T>(state: CallState, request: CallRequestOptions, run: () => Promise<T>): Promise<T> {
+    state.progress = request.onProgress ?? null;
+    try {
+      return await run();
+    } finally {
+      state.progress = null;
+    }
+  }
+
+  /**
+   * Report a call phase to the tool call waiting on it, if any
+   */
+  private reportProgress(state: CallState, phase: CallPhase, message: string): void {
+    state.progress?.(phase, message);
+  }
+
+  private callSeconds(state: CallState): number {
+    return Math.round((Date.now() - state.startTime) / 100) / 10;
+  }
+
+  /**
+   * Attach a final transcript to the oldest segment still waiting for one
+   */
+  private finishSegment(state: CallState, transcript: string): void {
+    const segment = state.speechSegments.find((s) => !s.final);
+    if (segment) {
+      segment.text = transcript;
+      segment.final = true;
+      segment.endSeconds = segment.endSeconds ?? this.callSeconds(state);
+      return;
+    }
+
+    // Providers without VAD events only deliver the transcript
+    const now = this.callSeconds(state);
+    state.speechSegments.push({ startSeconds: now, endSeconds: now, text: transcript, final: true });
+  }
+
+  /**
+   * Snapshot of what the last listen heard
+   */
+  private heardSpeech(state: CallState): HeardSpeech {
+    return {
+      segments: state.speechSegments.map((segment) => ({ ...segment })),
+      saidWhileBusy: [...state.saidWhileBusy],
+    };
+  }
+
+  /**
+   * Run a wait on a call that stays open if Claude cancels it. The call is
+   * left ready for the next tool call; only the optional cancel message is said.
+   */
+  private async cancellable<T>(state: CallState, signal: AbortSignal | undefined, wait: () => Promise<T>): Promise<T> {
+    try {
+      return await wait();
+    } catch (error) {
+      if (isAbortError(error, signal)) {
+        console.error(`[${state.callId}] Wait cancelled by the client`);
+        await this.sayCancelMessage(state);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Say CALLME_CANCEL_MESSAGE (if set) after Claude cancels a wait
+   */
+  private async sayCancelMessage(state: CallState): Promise<void> {
+    const message = this.config.cancelMessage;
+    const streaming = state.ws?.readyState === WebSocket.OPEN && (state.streamSid || state.streamingReady);
+    if (!message || state.hungUp || !streaming) return;
+
+    try {
+      await this.speak(state, message, { allowBargeIn: false });
+      this.recordUtterance(state, 'claude', message);
+    } catch (error) {
+      log.error(`[${state.callId}] Failed to say cancel message:`, error);
+    }
+  }
+
+  /**
+   * Add an utterance to the call's history (in memory and in the conversation store)
+   */
+  private recordUtterance(state: CallState, speaker: 'claude' | 'user', message: string): void {
+    state.conversationHistory.push({ speaker, message });
+    this.config.conversationStore?.addMessage(state.callId, speaker, message);
+  }
+
+  /**
+   * Clean up all state associated with a call
+   */
+  private cleanupCallState(state: CallState): void {
+    // Clear any active intervals
+    if (state.hangupCheckInterval) {
+      clearInterval(state.hangupCheckInterval);
+      state.hangupCheckInterval = null;
+    }
+
+    // Close sessions
+    state.sttSession?.close();
+    state.ws?.close();
+
+    // Save the recording in the background if endCall didn't already
+    this.saveRecording(state).catch(() => {});
+
+    const outcome = state.endReason ?? (state.answeredBy === 'machine' ? 'VOICEMAIL' : 'COMPLETED');
+    this.config.conversationStore?.endConversation(state.callId, outcome);
+
+    // Clean up mappings
+    this.wsTokenToCallId.delete(state.wsToken);
+    if (state.callControlId) {
+      this.callControlIdToCallId.delete(state.callControlId);
+    }
+    this.activeCalls.delete(state.callId);
+  }
+
+  /**
+   * @throws Error if the turn strategy is invalid
+   */
+  async continueCall(
+    callId: string,
+    message: string,
+    request: ContinueCallOptions = {}
+  ): Promise<{ response: string; interruption: Interruption | null } & HeardSpeech> {
+    const state = this.activeCalls.get(callId);
+    if (!state) throw new Error(`No active call: ${callId}`);
+
+    if (request.turnStrategy) {
+      state.turnStrategy = resolveTurnStrategy(state.turnStrategy, request.turnStrategy);
+      console.error(`[${callId}] Turn strategy: ${state.turnStrategy.type}`);
+    }
+
+    return this.withRequest(state, request, async () => {
+      const result = await this.cancellable(state, request.signal, () => this.speakAndListen(state, message, request.signal));
+      this.recordUtterance(state, 'claude', message);
+      this.recordUtterance(state, 'user', result.response);
+      return { ...result, ...this.heardSpeech(state) };
+    });
+  }
+
+  /**
+   * Speak without waiting for a reply. If the user talks over the message,
+   * what they said is returned as the response.
+   */
+  async speakOnly(
+    callId: string,
+    message: string,
+    request: CallRequestOptions = {}
+  ): Promise<{ interruption: Interruption | null; response?: string } & Partial<HeardSpeech>> {
+    const state = this.activeCalls.get(callId);
+    if (!state) throw new Error(`No active call: ${callId}`);
+
+    return this.withRequest(state, request, async () => {
+      const interruption = await this.speak(state, message);
+      this.recordUtterance(state, 'claude', message);
+
+      if (!interruption) {
+        return { interruption };
+      }
+
+      const response = await this.cancellable(state, request.signal, () => this.listen(state, request.signal));
+      this.recordUtterance(state, 'user', response);
+      return { interruption, response, ...this.heardSpeech(state) };
+    });
+  }
+
+  /**
+   * Read a numbered menu aloud and wait for a keypad press or a spoken answer
+   */
+  async askChoice(callId: string, prompt: string, options: string[], request: CallRequestOptions = {}): Promise<ChoiceResult> {
+    const state = this.activeCalls.get(callId);
+    if (!state) throw new Error(`No active call: ${callId}`);
+    if (options.length < 2 || options.length > MAX_CHOICE_OPTIONS) {
+      throw new Error(`ask_choice needs between 2 and ${MAX_CHOICE_OPTIONS} options`);
+    }
+
+    return this.withRequest(state, request, async () => {
+      // Digits pressed before the menu started don't answer it
+      state.pendingDigits = [];
+
+      let text = buildChoicePrompt(prompt, options);
+      for (let attempt = 1; attempt <= CHOICE_MAX_ATTEMPTS; attempt++) {
+        await this.speak(state, text);
+        this.recordUtterance(state, 'claude', text);
+
+        const answer = await this.cancellable(state, request.signal, () => this.listenForChoice(state, request.signal));
+        const index = answer.method === 'keypad'
+          ? matchDigitChoice(answer.value, options)
+          : matchSpokenChoice(answer.value, options);
+        this.recordUtterance(state, 'user', answer.method === 'keypad' ? `[pressed ${answer.value}]` : answer.value);
+
+        if (index !== null) {
+          console.error(`[${callId}] Choice: ${index + 1} (${options[index]}) via ${answer.method}`);
+          return {
+            index,
+            label: options[index],
+            method: answer.method,
+            transcript: answer.method === 'speech' ? answer.value : undefined,
+          };
+        }
+
+        log.warn(`[${callId}] Unrecognized choice: ${answer.value}`);
+        text = `Sorry, I didn't catch that. Press a number from 1 to ${options.length}, or say the option.`;
+      }
+
+      throw new Error(`No valid choice after ${CHOICE_MAX_ATTEMPTS} attempts`);
+    });
+  }
+
+  /**
+   * Take a long dictation: keep listening across pauses until the user says a
+   * stop phrase, presses any key, or the time limit is reached. The caller's
+   * audio for the span is saved to CALLME_VOICE_NOTES_DIR.
+   * If the user hangs up, what was dictated so far is still returned.
+   */
+  async recordVoiceNote(callId: string, prompt: string, options: VoiceNoteOptions = {}): Promise<VoiceNote> {
+    const state = this.activeCalls.get(callId);
+    if (!state) throw new Error(`No active call: ${callId}`);
+    const maxSeconds = Math.min(Math.max(options.maxSeconds ?? VOICE_NOTE_DEFAULT_SECONDS, 1), VOICE_NOTE_MAX_SECONDS);
+    const stopPhrases = options.stopPhrases?.length ? options.stopPhrases : VOICE_NOTE_STOP_PHRASES;
+
+    return this.withRequest(state, options, async () => {
+      await this.speak(state, prompt);
+      this.recordUtterance(state, 'claude', prompt);
+
+      const note = await this.cancellable(state, options.signal, () => this.takeVoiceNote(state, maxSeconds, stopPhrases, options.signal));
+      this.recordUtterance(state, 'user', note.transcript);
+      return note;
+    });
+  }
+
+  private async takeVoiceNote(
+    state: CallState,
+    maxSeconds: number,
+    stopPhrases: string[],
+    signal?: AbortSignal
+  ): Promise<VoiceNote> {
+    const sttSession = state.sttSession;
+    if (!sttSession?.isConnected()) {
+      throw new CallError('STT_UNAVAILABLE');
+    }
+
+    console.error(`[${state.callId}] Recording voice note (up to ${maxSeconds}s)...`);
+    this.reportProgress(state, 'listening', `Recording a voice note (up to ${maxSeconds}s)`);
+
+    // Keys pressed during the prompt don't stop the note; speech during it is part of the note
+    state.pendingDigits = [];
+    state.speechSegments = state.speechSegments.filter((s) => !s.final);
+    const parts: string[] = [];
+    for (const transcript of sttSession.takeQueuedTranscripts()) {
+      this.finishSegment(state, transcript);
+      parts.push(transcript);
+    }
+
+    const audio: Buffer[] = [];
+    state.voiceNoteAudio = audio;
+    const startTime = Date.now();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const stopped = new Promise<VoiceNoteStop>((resolve) => {
+      state.onDigit = () => resolve('keypad');
+      timer = setTimeout(() => resolve('time_limit'), maxSeconds * 1000);
+      this.waitForHangup(state).catch(() => resolve('hangup'));
+    });
+
+    let stoppedBy: VoiceNoteStop | null = null;
+    try {
+      while (stoppedBy === null) {
+        let transcript: string | null;
+        try {
+          transcript = await this.transcriptUnless(state, sttSession, stopped, signal);
+        } catch (error) {
+          if (error instanceof CallError && error.code === 'SILENCE_TIMEOUT' && parts.length > 0) {
+            stoppedBy = 'silence';
+            break;
+          }
+          throw error;
+        }
+
+        if (transcript === null) {
+          stoppedBy = await stopped;
+          // The last words may still be transcribing when a key or the time limit stops the note
+          const last = stoppedBy === 'hangup' ? null : await this.finalWords(state, sttSession, signal);
+          if (last !== null) parts.push(last);
+          break;
+        }
+
+        this.finishSegment(state, transcript);
+        this.reportProgress(state, 'transcript', `Voice note: ${parts.length + 1} segment(s) so far`);
+        const beforeStop = stripEndKeyword(transcript, stopPhrases);
+        if (beforeStop !== null) {
+          if (beforeStop) parts.push(beforeStop);
+          stoppedBy = 'phrase';
+        } else {
+          parts.push(transcript);
+        }
+      }
+    } finally {
+      if (timer) clearTimeout(timer);
+      if (state.hangupCheckInterval) {
+        clearInterval(state.hangupCheckInterval);
+        state.hangupCheckInterval = null;
+      }
+      state.onDigit = null;
+      state.voiceNoteAudio = null;
+    }
+
+    const transcript = parts.join(' ');
+    console.error(`[${state.callId}] Voice note ended (${stoppedBy}): ${transcript}`);
+
+    let saved: CallRecording | null = null;
+    if (audio.length > 0) {
+      const path = join(this.config.voiceNotesDir, `${state.callId}-note-${startTime}.wav`);
+      try {
+        saved = await saveMuLawWav(path, Buffer.concat(audio));
+      } catch (error) {
+        log.error(`[${state.callId}] Failed to save voice note audio:`, error);
+      }
+    }
+
+    return {
+      transcript,
+      segments: this.heardSpeech(state).segments,
+      stoppedBy,
+      durationSeconds: Math.round((Date.now() - startTime) / 1000),
+      audio: saved,
+    };
+  }
+
+  /**
+   * Turn dictated code terms in a transcript into literal text (CALLME_DICTATION_NORMALIZE)
+   * @returns The normalized transcript, or null when normalization is off
+   */
+  normalizeTranscript(transcript: string): string | null {
+    return this.config.dictationRules ? normalizeDictation(transcript, this.config.dictationRules) : null;
+  }
+
+  async endCall(callId: string, message: string): Promise<{ durationSeconds: number; recording: CallRecording | null }> {
+    const state = this.activeCalls.get(callId);
+    if (!state) throw new Error(`No active call: ${callId}`);
+
+    await this.speak(state, message, { allowBargeIn: false });
+    this.recordUtterance(state, 'claude', message);
+
+    // Wait for audio to finish playing before hanging up (prevent cutoff)
+    await new Promise((resolve) => setTimeout(resolve, TIMEOUT_CONSTANTS.HANGUP_AUDIO_DELAY_MS));
+
+    // Hang up the call via phone provider
+    if (state.callControlId) {
+      await this.config.providers.phone.hangup(state.callControlId);
+    }
+
+    state.hungUp = true;
+    const durationSeconds = Math.round((Date.now() - state.startTime) / 1000);
+    const recording = await this.saveRecording(state);
+
+    // Clean up all state
+    this.cleanupCallState(state);
+
+    return { durationSeconds, recording };
+  }
+
+  /**
+   * Get a call's recording. For an active call, the audio so far is saved first.
+   * @throws Error if recording is disabled or the call has no recording
+   */
+  async getCallRecording(callId: string): Promise<CallRecording & { inProgress: boolean }> {
+    if (!this.config.recordingDir) {
+      throw new Error('Call recording is disabled. Set CALLME_RECORDING_DIR to record calls.');
+    }
+
+    const recorder = this.activeCalls.get(callId)?.recorder;
+    if (recorder) {
+      return { ...await recorder.save(), inProgress: true };
+    }
+
+    const recording = this.recordings.get(callId);
+    if (!recording) throw new Error(`No recording for call: ${callId}`);
+    return { ...recording, inProgress: false };
+  }
+
+  /**
+   * Stop recording a call and write its WAV file
+   * @returns The saved recording, or null if the call wasn't recorded or saving failed
+   */
+  private async saveRecording(state: CallState): Promise<CallRecording | null> {
+    const recorder = state.recorder;
+    state.recorder = null;
+    // Calls that never connected have nothing worth saving
+    if (!recorder || recorder.empty) return null;
+
+    try {
+      const recording = await recorder.save();
+      this.recordings.set(state.callId, recording);
+      console.error(`[${state.callId}] Recording saved: ${recording.path} (${recording.durationSeconds}s)`);
+      return recording;
+    } catch (error) {
+      log.error(`[${state.callId}] Failed to save recording:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Wait for the call to be answered and its media stream to be ready.
+   * The phone may ring for up to RING_TIMEOUT_MS; once answered, the stream
+   * must connect within WS_CONNECTION_TIMEOUT_MS.
+   * @throws CallError if the call ends or rings out before connecting
+   */
+  private async waitForConnection(state: CallState, signal?: AbortSignal): Promise<void> {
+    const startTime = Date.now();
+    let answeredAt: number | null = null;
+
+    while (true) {
+      throwIfAborted(signal);
+
+      // Wait for WebSocket AND streaming to be ready:
+      // - Twilio: streamSid is set from "start" WebSocket event
+      // - Telnyx: streamingReady is set from "streaming.started" webhook
+      const wsReady = state.ws && state.ws.readyState === WebSocket.OPEN;
+      const streamReady = state.streamSid || state.streamingReady;
+      if (wsReady && streamReady) {
+        this.reportProgress(state, 'stream_ready', 'Audio stream connected');
+        return;
+      }
+
+      if (state.hungUp) {
+        throw new CallError(this.failureCode(state, 'CARRIER_FAILED'));
+      }
+
+      if (state.answered && answeredAt === null) {
+        answeredAt = Date.now();
+      }
+
+      if (answeredAt !== null && Date.now() - answeredAt > TIMEOUT_CONSTANTS.WS_CONNECTION_TIMEOUT_MS) {
+        throw new CallError('CARRIER_FAILED', 'WebSocket connection timeout');
+      }
+
+      if (answeredAt === null && Date.now() - startTime > TIMEOUT_CONSTANTS.RING_TIMEOUT_MS) {
+        if (state.callControlId) {
+          await this.config.providers.phone.hangup(state.callControlId);
+        }
+        throw new CallError('NO_ANSWER');
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, TIMEOUT_CONSTANTS.HANGUP_CHECK_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Why a call dropped: the carrier's reason if it sent one, otherwise the fallback
+   */
+  private failureCode(state: CallState, fallback: CallOutcomeCode): CallOutcomeCode {
+    return state.endReason && state.endReason !== 'CANCELLED' ? state.endReason : fallback;
+  }
+
+  /**
+   * Poll until a condition holds or the timeout expires
+   * @returns True if the condition was met
+   */
+  private async waitUntil(condition: () => boolean, timeout: number): Promise<boolean> {
+    const startTime = Date.now();
+    while (Date.now() - startTime < timeout) {
+      if (condition()) return true;
+      await new Promise((resolve) => setTimeout(resolve, TIMEOUT_CONSTANTS.HANGUP_CHECK_INTERVAL_MS));
+    }
+    return condition();
+  }
+
+  /**
+   * Convert whole TTS output to mu-law 8kHz for the phone
+   */
+  private toPhoneAudio(audio: Buffer): Buffer {
+    if (this.config.providers.tts.outputFormat === 'ulaw_8000') return audio;
+    return pcmToMuLaw(resample24kTo8k(audio));
+  }
+
+  /**
+   * Pre-generate TTS audio (can run in parallel with connection setup)
+   * Returns mu-law encoded audio ready to send to Twilio
+   */
+  private async generateTTSAudio(text: string, options: SynthesisOptions = {}): Promise<Buffer> {
+    console.error(`[TTS] Generating audio for: ${text.substring(0, 50)}...`);
+    const tts = this.config.providers.tts;
+    let audio: Buffer;
+    try {
+      audio = await tts.synthesize(text, options);
+    } catch (error) {
+      throw toCallError(error, 'TTS_FAILED');
+    }
+    const muLawData = this.toPhoneAudio(audio);
+    console.error(`[TTS] Audio generated: ${muLawData.length} bytes`);
+    return muLawData;
   }
 
   /**
@@ -663,48 +1932,139 @@ export class CallManager {
       message.streamSid = state.streamSid;
     }
     state.ws.send(JSON.stringify(message));
+    state.recorder?.addOutbound(audioData);
   }
 
-  private async sendPreGeneratedAudio(state: CallState, muLawData: Buffer): Promise<void> {
-    console.error(`[${state.callId}] Sending pre-generated audio...`);
-    for (let i = 0; i < muLawData.length; i += AUDIO_CONSTANTS.CHUNK_SIZE_BYTES) {
-      this.sendMediaChunk(state, muLawData.subarray(i, i + AUDIO_CONSTANTS.CHUNK_SIZE_BYTES));
+  /**
+   * Tell the carrier to drop any audio it has buffered but not yet played.
+   * Twilio and Telnyx both accept a "clear" event on the media stream.
+   */
+  private sendClear(state: CallState): void {
+    if (state.ws?.readyState !== WebSocket.OPEN) return;
+    const message: Record<string, unknown> = { event: 'clear' };
+    if (state.streamSid) {
+      message.streamSid = state.streamSid;
+    }
+    state.ws.send(JSON.stringify(message));
+  }
+
+  /**
+   * Send mu-law audio in real-time paced chunks, stopping early on barge-in
+   * @returns Number of bytes sent
+   */
+  private async sendPacedAudio(state: CallState, muLawData: Buffer): Promise<number> {
+    let bytesSent = 0;
+    for (let i = 0; i < muLawData.length && !state.interrupted; i += AUDIO_CONSTANTS.CHUNK_SIZE_BYTES) {
+      const chunk = muLawData.subarray(i, i + AUDIO_CONSTANTS.CHUNK_SIZE_BYTES);
+      this.sendMediaChunk(state, chunk);
+      bytesSent += chunk.length;
       await new Promise((resolve) => setTimeout(resolve, AUDIO_CONSTANTS.CHUNK_SEND_DELAY_MS));
     }
+    return bytesSent;
+  }
+
+  /**
+   * Mark the start of TTS playback so speech from the user can interrupt it
+   */
+  private beginPlayback(state: CallState, allowBargeIn: boolean): void {
+    state.interrupted = false;
+    state.speaking = allowBargeIn;
+  }
+
+  /**
+   * Mark the end of TTS playback and, if the user talked over it, flush the carrier's buffer
+   */
+  private endPlayback(state: CallState, text: string, bytesSent: number, totalBytes?: number): Interruption | null {
+    state.speaking = false;
+    if (!state.interrupted) return null;
+
+    state.interrupted = false;
+    this.sendClear(state);
+
+    const playedSeconds = bytesSent / AUDIO_CONSTANTS.MULAW_BYTES_PER_SECOND;
+    const totalSeconds = totalBytes !== undefined ? totalBytes / AUDIO_CONSTANTS.MULAW_BYTES_PER_SECOND : undefined;
+    console.error(`[${state.callId}] Playback interrupted after ${playedSeconds.toFixed(1)}s`);
+
+    return {
+      playedSeconds: Math.round(playedSeconds * 10) / 10,
+      heardText: estimateHeardText(text, playedSeconds, totalSeconds),
+    };
+  }
+
+  private async sendPreGeneratedAudio(state: CallState, text: string, muLawData: Buffer): Promise<Interruption | null> {
+    console.error(`[${state.callId}] Sending pre-generated audio...`);
+    this.reportProgress(state, 'speaking', `Speaking: ${text.substring(0, 50)}`);
+    this.beginPlayback(state, true);
+    try {
+      const bytesSent = await this.sendPacedAudio(state, muLawData);
+      const interruption = this.endPlayback(state, text, bytesSent, muLawData.length);
+      if (interruption) return interruption;
+    } finally {
+      state.speaking = false;
+    }
     // Small delay to ensure audio finishes playing before listening
     await new Promise((resolve) => setTimeout(resolve, AUDIO_CONSTANTS.POST_AUDIO_DELAY_MS));
     console.error(`[${state.callId}] Audio sent`);
+    return null;
   }
 
-  private async speakAndListen(state: CallState, text: string): Promise<string> {
-    await this.speak(state, text);
-    return await this.listen(state);
+  private async speakAndListen(
+    state: CallState,
+    text: string,
+    signal?: AbortSignal
+  ): Promise<{ response: string; interruption: Interruption | null }> {
+    const interruption = await this.speak(state, text);
+    const response = await this.listen(state, signal);
+    return { response, interruption };
   }
 
-  private async speak(state: CallState, text: string): Promise<void> {
+  /**
+   * Speak text on the call.
+   * @returns Details of the interruption if the user talked over the message, otherwise null
+   */
+  private async speak(
+    state: CallState,
+    text: string,
+    { allowBargeIn = true }: { allowBargeIn?: boolean } = {}
+  ): Promise<Interruption | null> {
     console.error(`[${state.callId}] Speaking: ${text.substring(0, 50)}...`);
+    this.reportProgress(state, 'speaking', `Speaking: ${text.substring(0, 50)}`);
 
     const tts = this.config.providers.tts;
+    const synthesisOptions: SynthesisOptions = { voice: state.contact?.voice };
+    let interruption: Interruption | null;
 
-    // Use streaming if available for lower latency
-    if (tts.synthesizeStream) {
-      await this.speakStreaming(state, text, tts.synthesizeStream.bind(tts));
-    } else {
-      const pcmData = await tts.synthesize(text);
-      await this.sendAudio(state, pcmData);
+    try {
+      // Use streaming if available for lower latency
+      if (tts.synthesizeStream) {
+        interruption = await this.speakStreaming(state, text, tts.synthesizeStream.bind(tts), tts.outputFormat, synthesisOptions, allowBargeIn);
+      } else {
+        const audio = await tts.synthesize(text, synthesisOptions);
+        interruption = await this.sendAudio(state, text, this.toPhoneAudio(audio), allowBargeIn);
+      }
+    } catch (error) {
+      throw toCallError(error, 'TTS_FAILED');
     }
 
+    // The user is already talking, so go straight to listening
+    if (interruption) return interruption;
+
     await new Promise((resolve) => setTimeout(resolve, TIMEOUT_CONSTANTS.POST_SPEAK_DELAY_MS));
     console.error(`[${state.callId}] Speaking done`);
+    return null;
   }
 
   private async speakStreaming(
     state: CallState,
     text: string,
-    synthesizeStream: (text: string) => AsyncGenerator<Buffer>
-  ): Promise<void> {
+    synthesizeStream: (text: string, options?: SynthesisOptions) => AsyncGenerator<Buffer>,
+    outputFormat: TTSOutputFormat,
+    synthesisOptions: SynthesisOptions,
+    allowBargeIn: boolean
+  ): Promise<Interruption | null> {
     let pendingPcm = Buffer.alloc(0);
     let pendingMuLaw = Buffer.alloc(0);
+    let bytesSent = 0;
 
     // Jitter buffer: accumulate audio before starting playback to smooth out
     // timing variations from network latency and burst delivery patterns
@@ -714,25 +2074,37 @@ export class CallManager {
 
     // Helper to drain and send buffered mu-law audio in chunks
     const drainBuffer = async () => {
-      while (pendingMuLaw.length >= AUDIO_CONSTANTS.CHUNK_SIZE_BYTES) {
+      while (pendingMuLaw.length >= AUDIO_CONSTANTS.CHUNK_SIZE_BYTES && !state.interrupted) {
         this.sendMediaChunk(state, pendingMuLaw.subarray(0, AUDIO_CONSTANTS.CHUNK_SIZE_BYTES));
         pendingMuLaw = pendingMuLaw.subarray(AUDIO_CONSTANTS.CHUNK_SIZE_BYTES);
+        bytesSent += AUDIO_CONSTANTS.CHUNK_SIZE_BYTES;
         await new Promise((resolve) => setTimeout(resolve, AUDIO_CONSTANTS.CHUNK_SEND_DELAY_MS));
       }
     };
 
-    for await (const chunk of synthesizeStream(text)) {
-      pendingPcm = Buffer.concat([pendingPcm, chunk]);
-
-      const completeUnits = Math.floor(pendingPcm.length / AUDIO_CONSTANTS.SAMPLES_PER_RESAMPLE);
-      if (completeUnits > 0) {
-        const bytesToProcess = completeUnits * AUDIO_CONSTANTS.SAMPLES_PER_RESAMPLE;
-        const toProcess = pendingPcm.subarray(0, bytesToProcess);
-        pendingPcm = pendingPcm.subarray(bytesToProcess);
-
-        const resampled = resample24kTo8k(toProcess);
-        const muLaw = pcmToMuLaw(resampled);
-        pendingMuLaw = Buffer.concat([pendingMuLaw, muLaw]);
+    this.beginPlayback(state, allowBargeIn);
+    try {
+      for await (const chunk of synthesizeStream(text, synthesisOptions)) {
+        // Stop pulling from the TTS stream once the user has interrupted
+        if (state.interrupted) break;
+
+        if (outputFormat === 'ulaw_8000') {
+          // Already phone audio
+          pendingMuLaw = Buffer.concat([pendingMuLaw, chunk]);
+        } else {
+          pendingPcm = Buffer.concat([pendingPcm, chunk]);
+
+          const completeUnits = Math.floor(pendingPcm.length / AUDIO_CONSTANTS.SAMPLES_PER_RESAMPLE);
+          if (completeUnits === 0) continue;
+
+          const bytesToProcess = completeUnits * AUDIO_CONSTANTS.SAMPLES_PER_RESAMPLE;
+          const toProcess = pendingPcm.subarray(0, bytesToProcess);
+          pendingPcm = pendingPcm.subarray(bytesToProcess);
+
+          const resampled = resample24kTo8k(toProcess);
+          const muLaw = pcmToMuLaw(resampled);
+          pendingMuLaw = Buffer.concat([pendingMuLaw, muLaw]);
+        }
 
         // Wait for jitter buffer to fill before starting playback
         if (!playbackStarted && pendingMuLaw.length < jitterBufferSize) {
@@ -742,50 +2114,81 @@ export class CallManager {
 
         await drainBuffer();
       }
-    }
 
-    // Send remaining audio (including any buffered audio for short messages)
-    await drainBuffer();
+      // Send remaining audio (including any buffered audio for short messages)
+      await drainBuffer();
+
+      // Send any final partial chunk
+      if (pendingMuLaw.length > 0 && !state.interrupted) {
+        this.sendMediaChunk(state, pendingMuLaw);
+        bytesSent += pendingMuLaw.length;
+      }
 
-    // Send any final partial chunk
-    if (pendingMuLaw.length > 0) {
-      this.sendMediaChunk(state, pendingMuLaw);
+      // Total length is unknown when the stream was cut short, so the heard text is estimated from the speaking rate
+      return this.endPlayback(state, text, bytesSent);
+    } finally {
+      state.speaking = false;
     }
   }
 
-  private async sendAudio(state: CallState, pcmData: Buffer): Promise<void> {
-    const resampledPcm = resample24kTo8k(pcmData);
-    const muLawData = pcmToMuLaw(resampledPcm);
-
-    for (let i = 0; i < muLawData.length; i += AUDIO_CONSTANTS.CHUNK_SIZE_BYTES) {
-      this.sendMediaChunk(state, muLawData.subarray(i, i + AUDIO_CONSTANTS.CHUNK_SIZE_BYTES));
-      await new Promise((resolve) => setTimeout(resolve, AUDIO_CONSTANTS.CHUNK_SEND_DELAY_MS));
+  private async sendAudio(state: CallState, text: string, muLawData: Buffer, allowBargeIn: boolean): Promise<Interruption | null> {
+    this.beginPlayback(state, allowBargeIn);
+    try {
+      const bytesSent = await this.sendPacedAudio(state, muLawData);
+      return this.endPlayback(state, text, bytesSent, muLawData.length);
+    } finally {
+      state.speaking = false;
     }
   }
 
-  private async listen(state: CallState): Promise<string> {
+  private async listen(state: CallState, signal?: AbortSignal): Promise<string> {
     console.error(`[${state.callId}] Listening...`);
+    this.reportProgress(state, 'listening', 'Listening for the user');
 
-    if (!state.sttSession) {
-      throw new Error('STT session not available');
+    if (!state.sttSession?.isConnected()) {
+      throw new CallError('STT_UNAVAILABLE');
     }
 
+    // Segments from earlier turns were already returned; keep any the user is still in
+    state.speechSegments = state.speechSegments.filter((s) => !s.final);
+
+    // Anything said while Claude was thinking or speaking is part of this reply
+    const queued = state.sttSession.takeQueuedTranscripts();
+    state.saidWhileBusy = queued;
+    for (const transcript of queued) {
+      console.error(`[${state.callId}] User said while Claude was busy: ${transcript}`);
+      this.finishSegment(state, transcript);
+    }
+
+    // With a keyword or # the user says when they're done, so queued speech never ends the turn
+    const strategy = state.turnStrategy;
+    const explicitEnd = strategy.type === 'keyword' || strategy.type === 'keypad';
+    if (queued.length > 0 && !explicitEnd && !this.config.mergeQueuedSpeech) {
+      this.reportProgress(state, 'transcript', 'Transcript received');
+      return queued.join(' ');
+    }
+
+    state.sttSession.setTurnDetection(
+      strategy.type === 'semantic_vad' ? { type: 'semantic_vad', eagerness: strategy.eagerness } : { type: 'server_vad' }
+    );
+
     // Start hangup monitoring
     const hangupPromise = this.waitForHangup(state);
 
     try {
-      // Race between getting a transcript and detecting hangup
-      const transcript = await Promise.race([
-        state.sttSession.waitForTranscript(this.config.transcriptTimeoutMs),
+      // Race between getting the whole reply and detecting hangup
+      const response = await Promise.race([
+        this.collectTurn(state, state.sttSession, queued, signal),
         hangupPromise,
       ]);
 
       if (state.hungUp) {
-        throw new Error('Call was hung up by user');
+        throw new CallError(this.failureCode(state, 'USER_HUNG_UP'));
       }
 
-      console.error(`[${state.callId}] User said: ${transcript}`);
-      return transcript;
+      console.error(`[${state.callId}] User said: ${response}`);
+      this.reportProgress(state, 'transcript', 'Transcript received');
+      return response;
     } finally {
       // Always clean up the hangup check interval
       if (state.hangupCheckInterval) {
@@ -795,6 +2198,209 @@ export class CallManager {
     }
   }
 
+  /**
+   * Gather utterances until the call's turn strategy says the reply is over
+   * @param queued Utterances the reply starts with (said while Claude was busy)
+   */
+  private async collectTurn(
+    state: CallState,
+    sttSession: RealtimeSTTSession,
+    queued: string[],
+    signal?: AbortSignal
+  ): Promise<string> {
+    const strategy = state.turnStrategy;
+    const parts = [...queued];
+    const nextUtterance = async () => {
+      const transcript = await this.waitForTranscript(state, sttSession, signal);
+      this.finishSegment(state, transcript);
+      parts.push(transcript);
+    };
+    const talking = () => state.speechSegments.some((s) => s.endSeconds === null);
+
+    try {
+      switch (strategy.type) {
+        case 'keyword': {
+          let reply: string | null;
+          while ((reply = stripEndKeyword(parts.join(' '), strategy.endKeywords)) === null) {
+            await nextUtterance();
+          }
+          return reply;
+        }
+
+        case 'keypad': {
+          const pressed = this.waitForTurnKey(state);
+          let transcript: string | null;
+          while ((transcript = await this.transcriptUnless(state, sttSession, pressed, signal)) !== null) {
+            this.finishSegment(state, transcript);
+            parts.push(transcript);
+          }
+          // The last words may still be transcribing when # is pressed
+          transcript = await this.finalWords(state, sttSession, signal);
+          if (transcript !== null) parts.push(transcript);
+          return parts.join(' ');
+        }
+
+        case 'vad':
+          await nextUtterance();
+          // Join segments split by short pauses: the user is talking again, or starts within the window
+          while (
+            strategy.mergeWindowMs > 0 &&
+            (talking() || await this.waitUntil(talking, strategy.mergeWindowMs))
+          ) {
+            throwIfAborted(signal);
+            await nextUtterance();
+          }
+          return parts.join(' ');
+
+        case 'semantic_vad':
+          await nextUtterance();
+          return parts.join(' ');
+      }
+    } catch (error) {
+      // The user already said something, so silence afterwards ends the reply rather than failing it
+      if (parts.length > 0 && error instanceof CallError && error.code === 'SILENCE_TIMEOUT') {
+        return parts.join(' ');
+      }
+      throw error;
+    } finally {
+      state.onDigit = null;
+    }
+  }
+
+  /**
+   * After the user ends a turn with a key, wait briefly for speech that's still being transcribed
+   * @returns The transcript, or null if nothing was pending, it was dropped or it didn't arrive in time
+   */
+  private async finalWords(state: CallState, sttSession: RealtimeSTTSession, signal?: AbortSignal): Promise<string | null> {
+    const pending = () => state.speechSegments.some((s) => !s.final);
+    if (!pending()) return null;
+
+    const grace = delay(TIMEOUT_CONSTANTS.FINAL_TRANSCRIPT_GRACE_MS, signal);
+    const dropped = this.waitUntil(() => !pending(), TIMEOUT_CONSTANTS.FINAL_TRANSCRIPT_GRACE_MS);
+    const transcript = await this.transcriptUnless(state, sttSession, Promise.race([grace, dropped]), signal);
+    if (transcript !== null) this.finishSegment(state, transcript);
+    return transcript;
+  }
+
+  /**
+   * Resolve when the user presses # to end their turn; other keys are queued for menus as usual
+   */
+  private waitForTurnKey(state: CallState): Promise<void> {
+    return new Promise((resolve) => {
+      // # pressed while Claude was still talking counts
+      const early = state.pendingDigits.indexOf('#');
+      if (early !== -1) {
+        state.pendingDigits.splice(early, 1);
+        resolve();
+        return;
+      }
+      state.onDigit = (digit) => {
+        if (digit === '#') resolve();
+        else state.pendingDigits.push(digit);
+      };
+    });
+  }
+
+  /**
+   * Wait for the next transcript unless `until` settles first (then null).
+   * The transcript wait is stopped either way, so later speech is queued rather than lost.
+   */
+  private async transcriptUnless(
+    state: CallState,
+    sttSession: RealtimeSTTSession,
+    until: Promise<unknown>,
+    signal?: AbortSignal
+  ): Promise<string | null> {
+    const settled = new AbortController();
+    const transcriptSignal = signal ? AbortSignal.any([signal, settled.signal]) : settled.signal;
+    try {
+      return await Promise.race([
+        this.waitForTranscript(state, sttSession, transcriptSignal),
+        until.then(() => null),
+      ]);
+    } finally {
+      settled.abort();
+    }
+  }
+
+  /**
+   * Wait for the next transcript, classifying failures: a dropped STT connection
+   * is STT_UNAVAILABLE, anything else (normally the timeout) is SILENCE_TIMEOUT
+   */
+  private async waitForTranscript(state: CallState, sttSession: RealtimeSTTSession, signal?: AbortSignal): Promise<string> {
+    try {
+      return await sttSession.waitForTranscript(this.config.transcriptTimeoutMs, signal);
+    } catch (error) {
+      if (isAbortError(error, signal)) throw error;
+      if (state.hungUp) throw new CallError(this.failureCode(state, 'USER_HUNG_UP'));
+      throw toCallError(error, sttSession.isConnected() ? 'SILENCE_TIMEOUT' : 'STT_UNAVAILABLE');
+    }
+  }
+
+  /**
+   * Wait for either a keypad press or a spoken answer, whichever comes first
+   */
+  private async listenForChoice(state: CallState, signal?: AbortSignal): Promise<{ method: 'keypad' | 'speech'; value: string }> {
+    console.error(`[${state.callId}] Waiting for choice...`);
+    this.reportProgress(state, 'listening', 'Waiting for a keypress or spoken answer');
+
+    if (!state.sttSession?.isConnected()) {
+      throw new CallError('STT_UNAVAILABLE');
+    }
+
+    // A key pressed while the menu was still being read counts
+    const queuedDigit = state.pendingDigits.shift();
+    if (queuedDigit) {
+      return { method: 'keypad', value: queuedDigit };
+    }
+
+    const hangupPromise = this.waitForHangup(state);
+    const digitPromise = new Promise<string>((resolve) => {
+      state.onDigit = resolve;
+    });
+
+    // Stop waiting for speech once a key wins, so later speech is queued for the next listen
+    const settled = new AbortController();
+    const transcriptSignal = signal ? AbortSignal.any([signal, settled.signal]) : settled.signal;
+    const transcriptPromise = this.waitForTranscript(state, state.sttSession, transcriptSignal)
+      .then((value) => ({ method: 'speech' as const, value }));
+    transcriptPromise.catch(() => {});
+
+    try {
+      const answer = await Promise.race([
+        digitPromise.then((value) => ({ method: 'keypad' as const, value })),
+        transcriptPromise,
+        hangupPromise,
+      ]);
+
+      if (state.hungUp) {
+        throw new CallError(this.failureCode(state, 'USER_HUNG_UP'));
+      }
+
+      this.reportProgress(state, 'transcript', answer.method === 'keypad' ? `Key pressed: ${answer.value}` : 'Transcript received');
+      return answer;
+    } finally {
+      settled.abort();
+      state.onDigit = null;
+      if (state.hangupCheckInterval) {
+        clearInterval(state.hangupCheckInterval);
+        state.hangupCheckInterval = null;
+      }
+    }
+  }
+
+  /**
+   * Route a DTMF keypress to a waiting menu, or queue it for the next one
+   */
+  private handleDtmf(state: CallState, digit: string): void {
+    console.error(`[${state.callId}] DTMF: ${digit}`);
+    if (state.onDigit) {
+      state.onDigit(digit);
+    } else {
+      state.pendingDigits.push(digit);
+    }
+  }
+
   /**
    * Returns a promise that rejects when the call is hung up.
    * Used to race against transcript waiting.
@@ -813,19 +2419,35 @@ export class CallManager {
             clearInterval(state.hangupCheckInterval);
             state.hangupCheckInterval = null;
           }
-          reject(new Error('Call was hung up by user'));
+          reject(new CallError(this.failureCode(state, 'USER_HUNG_UP')));
         }
       }, TIMEOUT_CONSTANTS.HANGUP_CHECK_INTERVAL_MS);
     });
   }
 
+  /**
+   * Contacts Claude may call
+   */
+  getContacts(): Contact[] {
+    return this.config.contacts;
+  }
+
+  /**
+   * Call and chat history (null when CALLME_HISTORY_DB=off)
+   */
+  getConversationStore(): ConversationStore | null {
+    return this.config.conversationStore;
+  }
+
   getHttpServer() {
     return this.httpServer;
   }
 
   shutdown(): void {
+    this.inboundWaiter?.reject(new Error('Server shutting down'));
+    this.inboundWaiter = null;
     for (const callId of this.activeCalls.keys()) {
-      this.endCall(callId, 'Goodbye!').catch(console.error);
+      this.endCall(callId, 'Goodbye!').catch(log.error);
     }
     this.wss?.close();
     this.httpServer?.close();
@@ -0,0 +1,102 @@
+/**
+ * Tests for provider selection and validation
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { createSTTProvider, createTTSProvider, validateProviderConfig, type ProviderConfig } from './index.js';
+
+const config: ProviderConfig = {
+  phoneProvider: 'twilio',
+  phoneAccountSid: 'AC123',
+  phoneAuthToken: 'token',
+  phoneNumber: '+15550000000',
+  ttsProvider: 'openai',
+  sttProvider: 'openai',
+  openaiApiKey: 'sk-test',
+};
+
+describe('validateProviderConfig', () => {
+  test('accepts the default OpenAI providers', () => {
+    expect(validateProviderConfig(config)).toEqual([]);
+  });
+
+  test('reports a missing OpenAI key once', () => {
+    expect(validateProviderConfig({ ...config, openaiApiKey: '' })).toEqual(['Missing CALLME_OPENAI_API_KEY']);
+  });
+
+  test('does not need a key for a self-hosted server', () => {
+    expect(validateProviderConfig({
+      ...config,
+      openaiApiKey: '',
+      ttsApiUrl: 'http://localhost:8880/v1',
+      sttApiUrl: 'http://localhost:8000/v1',
+    })).toEqual([]);
+  });
+
+  test('requires an endpoint for batch transcription', () => {
+    expect(validateProviderConfig({ ...config, sttProvider: 'batch' })).toEqual([
+      'CALLME_STT_PROVIDER=batch requires CALLME_STT_API_URL (e.g. http://localhost:8000/v1)',
+    ]);
+    expect(validateProviderConfig({ ...config, sttProvider: 'batch', sttApiUrl: 'http://localhost:8000/v1' })).toEqual([]);
+  });
+
+  test('needs a command or an endpoint for local TTS, but no OpenAI key', () => {
+    expect(validateProviderConfig({ ...config, ttsProvider: 'local' })).toEqual([
+      'CALLME_TTS_PROVIDER=local requires CALLME_TTS_COMMAND or CALLME_TTS_API_URL',
+    ]);
+    expect(validateProviderConfig({
+      ...config,
+      ttsProvider: 'local',
+      ttsCommand: 'piper --model voice.onnx --output-raw',
+      sttProvider: 'batch',
+      sttApiUrl: 'http://localhost:8000/v1',
+      openaiApiKey: '',
+    })).toEqual([]);
+  });
+
+  test('needs a Deepgram key for Deepgram', () => {
+    expect(validateProviderConfig({ ...config, sttProvider: 'deepgram' })).toEqual([
+      'Missing CALLME_DEEPGRAM_API_KEY (required with CALLME_STT_PROVIDER=deepgram)',
+    ]);
+    expect(validateProviderConfig({ ...config, sttProvider: 'deepgram', deepgramApiKey: 'dg-key' })).toEqual([]);
+  });
+
+  test('checks ElevenLabs settings', () => {
+    expect(validateProviderConfig({ ...config, ttsProvider: 'elevenlabs', elevenlabsStability: 1.5 })).toEqual([
+      'Missing CALLME_ELEVENLABS_API_KEY (required with CALLME_TTS_PROVIDER=elevenlabs)',
+      'CALLME_ELEVENLABS_STABILITY must be between 0 and 1',
+    ]);
+    expect(validateProviderConfig({ ...config, ttsProvider: 'elevenlabs', elevenlabsApiKey: 'xi-key', elevenlabsSimilarityBoost: 0.75 })).toEqual([]);
+  });
+
+  test('rejects unknown providers and bad URLs', () => {
+    expect(validateProviderConfig({
+      ...config,
+      ttsProvider: 'acme' as never,
+      sttApiUrl: 'gateway.internal/v1',
+    })).toEqual([
+      'Unknown CALLME_TTS_PROVIDER: acme (supported: openai, local, elevenlabs)',
+      'Invalid CALLME_STT_API_URL: gateway.internal/v1 (expected an http or ws URL)',
+    ]);
+  });
+
+  test('rejects provider names inherited from Object.prototype', () => {
+    expect(validateProviderConfig({ ...config, ttsProvider: 'constructor' as never, sttProvider: 'toString' as never })).toEqual([
+      'Unknown CALLME_TTS_PROVIDER: constructor (supported: openai, local, elevenlabs)',
+      'Unknown CALLME_STT_PROVIDER: toString (supported: openai, batch, deepgram)',
+    ]);
+    expect(() => createTTSProvider({ ...config, ttsProvider: 'constructor' as never })).toThrow('Unknown TTS provider: constructor');
+  });
+});
+
+describe('createTTSProvider / createSTTProvider', () => {
+  test('build the selected providers', () => {
+    const gateway = { ...config, ttsApiUrl: 'https://gateway.internal/openai/v1', sttApiUrl: 'https://gateway.internal/openai/v1' };
+    expect(createTTSProvider(gateway).name).toBe('openai');
+    expect(createTTSProvider({ ...gateway, ttsProvider: 'local' }).name).toBe('local');
+    expect(createTTSProvider({ ...gateway, ttsProvider: 'elevenlabs', elevenlabsApiKey: 'xi-key' }).outputFormat).toBe('ulaw_8000');
+    expect(createSTTProvider(gateway).name).toBe('openai-realtime');
+    expect(createSTTProvider({ ...gateway, sttProvider: 'batch' }).name).toBe('batch');
+    expect(createSTTProvider({ ...gateway, sttProvider: 'deepgram', deepgramApiKey: 'dg-key' }).name).toBe('deepgram');
+  });
+});
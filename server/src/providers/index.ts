@@ -2,19 +2,27 @@
  * Provider Factory
  *
  * Creates and configures providers based on environment variables.
- * Supports Telnyx or Twilio for phone, OpenAI for TTS and Realtime STT.
+ * Supports Telnyx or Twilio for phone. TTS and STT providers are picked from
+ * a registry (CALLME_TTS_PROVIDER / CALLME_STT_PROVIDER); each entry builds
+ * its provider and checks the settings it needs.
  */
 
 import type { PhoneProvider, TTSProvider, RealtimeSTTProvider, ProviderRegistry } from './types.js';
 import { TelnyxPhoneProvider } from './phone-telnyx.js';
 import { TwilioPhoneProvider } from './phone-twilio.js';
 import { OpenAITTSProvider } from './tts-openai.js';
+import { LocalTTSProvider } from './tts-local.js';
+import { ElevenLabsTTSProvider } from './tts-elevenlabs.js';
 import { OpenAIRealtimeSTTProvider } from './stt-openai-realtime.js';
+import { BatchSTTProvider } from './stt-batch.js';
+import { DeepgramSTTProvider } from './stt-deepgram.js';
 
 export * from './types.js';
 export * from './telegram.js';
 
 export type PhoneProviderType = 'telnyx' | 'twilio';
+export type TTSProviderType = 'openai' | 'local' | 'elevenlabs';
+export type STTProviderType = 'openai' | 'batch' | 'deepgram';
 
 export interface ProviderConfig {
   // Phone provider selection
@@ -31,31 +39,77 @@ export interface ProviderConfig {
   // Get from: Mission Control > Account Settings > Keys & Credentials > Public Key
   telnyxPublicKey?: string;
 
+  // Speech provider selection
+  ttsProvider: TTSProviderType;
+  sttProvider: STTProviderType;
+
   // OpenAI (TTS + STT)
   openaiApiKey: string;
+
+  // Deepgram (STT)
+  deepgramApiKey?: string;
+
+  // ElevenLabs (TTS)
+  elevenlabsApiKey?: string;
+  elevenlabsStability?: number;
+  elevenlabsSimilarityBoost?: number;
+
+  // API base URLs, e.g. an OpenAI-compatible gateway or self-hosted server
+  ttsApiUrl?: string;
+  sttApiUrl?: string;
+
   ttsVoice?: string;
+  ttsModel?: string;
+  ttsCommand?: string;
+  ttsSampleRate?: number;
   sttModel?: string;
   sttSilenceDurationMs?: number;
+  sttVadThreshold?: number;
+  sttVocabulary?: string[];
 }
 
 export function loadProviderConfig(): ProviderConfig {
   const sttSilenceDurationMs = process.env.CALLME_STT_SILENCE_DURATION_MS
     ? parseInt(process.env.CALLME_STT_SILENCE_DURATION_MS, 10)
     : undefined;
+  const ttsSampleRate = process.env.CALLME_TTS_SAMPLE_RATE
+    ? parseInt(process.env.CALLME_TTS_SAMPLE_RATE, 10)
+    : undefined;
+  const elevenlabsStability = process.env.CALLME_ELEVENLABS_STABILITY
+    ? parseFloat(process.env.CALLME_ELEVENLABS_STABILITY)
+    : undefined;
+  const elevenlabsSimilarityBoost = process.env.CALLME_ELEVENLABS_SIMILARITY_BOOST
+    ? parseFloat(process.env.CALLME_ELEVENLABS_SIMILARITY_BOOST)
+    : undefined;
+  const sttVadThreshold = process.env.CALLME_STT_VAD_THRESHOLD
+    ? parseInt(process.env.CALLME_STT_VAD_THRESHOLD, 10)
+    : undefined;
 
   // Default to telnyx if not specified
   const phoneProvider = (process.env.CALLME_PHONE_PROVIDER || 'telnyx') as PhoneProviderType;
 
   return {
     phoneProvider,
+    ttsProvider: (process.env.CALLME_TTS_PROVIDER || 'openai') as TTSProviderType,
+    sttProvider: (process.env.CALLME_STT_PROVIDER || 'openai') as STTProviderType,
     phoneAccountSid: process.env.CALLME_PHONE_ACCOUNT_SID || '',
     phoneAuthToken: process.env.CALLME_PHONE_AUTH_TOKEN || '',
     phoneNumber: process.env.CALLME_PHONE_NUMBER || '',
     telnyxPublicKey: process.env.CALLME_TELNYX_PUBLIC_KEY,
     openaiApiKey: process.env.CALLME_OPENAI_API_KEY || '',
-    ttsVoice: process.env.CALLME_TTS_VOICE || 'onyx',
-    sttModel: process.env.CALLME_STT_MODEL || 'gpt-4o-transcribe',
+    deepgramApiKey: process.env.CALLME_DEEPGRAM_API_KEY || undefined,
+    elevenlabsApiKey: process.env.CALLME_ELEVENLABS_API_KEY || undefined,
+    elevenlabsStability,
+    elevenlabsSimilarityBoost,
+    ttsApiUrl: process.env.CALLME_TTS_API_URL || undefined,
+    sttApiUrl: process.env.CALLME_STT_API_URL || undefined,
+    ttsVoice: process.env.CALLME_TTS_VOICE || undefined,  // Each provider has its own default
+    ttsModel: process.env.CALLME_TTS_MODEL || undefined,
+    ttsCommand: process.env.CALLME_TTS_COMMAND || undefined,
+    ttsSampleRate,
+    sttModel: process.env.CALLME_STT_MODEL || undefined,  // Each provider has its own default
     sttSilenceDurationMs,
+    sttVadThreshold,
   };
 }
 
@@ -77,23 +131,176 @@ export function createPhoneProvider(config: ProviderConfig): PhoneProvider {
   return provider;
 }
 
+/**
+ * A selectable speech provider: how to build it and what settings it needs
+ */
+interface ProviderEntry<T> {
+  create(config: ProviderConfig): T;
+  /** @returns Problems with the settings this provider needs */
+  validate(config: ProviderConfig): string[];
+}
+
+/**
+ * Check an optional API base URL
+ */
+function validateApiUrl(variable: string, url: string | undefined): string[] {
+  if (!url) return [];
+  try {
+    const { protocol } = new URL(url);
+    if (['http:', 'https:', 'ws:', 'wss:'].includes(protocol)) return [];
+  } catch {
+    // Reported below
+  }
+  return [`Invalid ${variable}: ${url} (expected an http or ws URL)`];
+}
+
+/**
+ * Check an optional setting that must be between 0 and 1
+ */
+function validateFraction(variable: string, value: number | undefined): string[] {
+  return value !== undefined && !(value >= 0 && value <= 1) ? [`${variable} must be between 0 and 1`] : [];
+}
+
+/**
+ * OpenAI needs a key, unless a self-hosted server is configured instead
+ */
+function validateOpenAIKey(config: ProviderConfig, apiUrl: string | undefined): string[] {
+  return !config.openaiApiKey && !apiUrl ? ['Missing CALLME_OPENAI_API_KEY'] : [];
+}
+
+const TTS_PROVIDERS: Record<TTSProviderType, ProviderEntry<TTSProvider>> = {
+  openai: {
+    create(config) {
+      const provider = new OpenAITTSProvider();
+      provider.initialize({
+        apiKey: config.openaiApiKey,
+        apiUrl: config.ttsApiUrl,
+        voice: config.ttsVoice,
+        model: config.ttsModel,
+      });
+      return provider;
+    },
+    validate: (config) => [
+      ...validateOpenAIKey(config, config.ttsApiUrl),
+      ...validateApiUrl('CALLME_TTS_API_URL', config.ttsApiUrl),
+    ],
+  },
+  local: {
+    create(config) {
+      const provider = new LocalTTSProvider();
+      provider.initialize({
+        apiUrl: config.ttsApiUrl,
+        voice: config.ttsVoice,
+        command: config.ttsCommand,
+        sampleRate: config.ttsSampleRate,
+      });
+      return provider;
+    },
+    validate: (config) => [
+      ...(config.ttsCommand || config.ttsApiUrl ? [] : ['CALLME_TTS_PROVIDER=local requires CALLME_TTS_COMMAND or CALLME_TTS_API_URL']),
+      ...(config.ttsCommand ? [] : validateApiUrl('CALLME_TTS_API_URL', config.ttsApiUrl)),
+      ...(config.ttsSampleRate !== undefined && !(config.ttsSampleRate > 0) ? ['CALLME_TTS_SAMPLE_RATE must be a positive number'] : []),
+    ],
+  },
+  elevenlabs: {
+    create(config) {
+      const provider = new ElevenLabsTTSProvider();
+      provider.initialize({
+        apiKey: config.elevenlabsApiKey,
+        apiUrl: config.ttsApiUrl,
+        voice: config.ttsVoice,
+        model: config.ttsModel,
+        stability: config.elevenlabsStability,
+        similarityBoost: config.elevenlabsSimilarityBoost,
+      });
+      return provider;
+    },
+    validate: (config) => [
+      ...(config.elevenlabsApiKey || config.ttsApiUrl ? [] : ['Missing CALLME_ELEVENLABS_API_KEY (required with CALLME_TTS_PROVIDER=elevenlabs)']),
+      ...validateApiUrl('CALLME_TTS_API_URL', config.ttsApiUrl),
+      ...validateFraction('CALLME_ELEVENLABS_STABILITY', config.elevenlabsStability),
+      ...validateFraction('CALLME_ELEVENLABS_SIMILARITY_BOOST', config.elevenlabsSimilarityBoost),
+    ],
+  },
+};
+
+const STT_PROVIDERS: Record<STTProviderType, ProviderEntry<RealtimeSTTProvider>> = {
+  openai: {
+    create(config) {
+      const provider = new OpenAIRealtimeSTTProvider();
+      provider.initialize({
+        apiKey: config.openaiApiKey,
+        apiUrl: config.sttApiUrl,
+        model: config.sttModel,
+        silenceDurationMs: config.sttSilenceDurationMs,
+        vocabulary: config.sttVocabulary,
+      });
+      return provider;
+    },
+    validate: (config) => [
+      ...validateOpenAIKey(config, config.sttApiUrl),
+      ...validateApiUrl('CALLME_STT_API_URL', config.sttApiUrl),
+    ],
+  },
+  batch: {
+    create(config) {
+      const provider = new BatchSTTProvider();
+      provider.initialize({
+        apiKey: config.openaiApiKey,
+        apiUrl: config.sttApiUrl,
+        model: config.sttModel,
+        silenceDurationMs: config.sttSilenceDurationMs,
+        vadThreshold: config.sttVadThreshold,
+        vocabulary: config.sttVocabulary,
+      });
+      return provider;
+    },
+    validate: (config) => [
+      ...(config.sttApiUrl ? [] : ['CALLME_STT_PROVIDER=batch requires CALLME_STT_API_URL (e.g. http://localhost:8000/v1)']),
+      ...validateApiUrl('CALLME_STT_API_URL', config.sttApiUrl),
+      ...(config.sttVadThreshold !== undefined && !(config.sttVadThreshold > 0) ? ['CALLME_STT_VAD_THRESHOLD must be a positive number'] : []),
+    ],
+  },
+  deepgram: {
+    create(config) {
+      const provider = new DeepgramSTTProvider();
+      provider.initialize({
+        apiKey: config.deepgramApiKey,
+        apiUrl: config.sttApiUrl,
+        model: config.sttModel,
+        silenceDurationMs: config.sttSilenceDurationMs,
+        vocabulary: config.sttVocabulary,
+      });
+      return provider;
+    },
+    validate: (config) => [
+      ...(config.deepgramApiKey || config.sttApiUrl ? [] : ['Missing CALLME_DEEPGRAM_API_KEY (required with CALLME_STT_PROVIDER=deepgram)']),
+      ...validateApiUrl('CALLME_STT_API_URL', config.sttApiUrl),
+    ],
+  },
+};
+
+export const TTS_PROVIDER_TYPES = Object.keys(TTS_PROVIDERS) as TTSProviderType[];
+export const STT_PROVIDER_TYPES = Object.keys(STT_PROVIDERS) as STTProviderType[];
+
+/**
+ * Look up a provider by the name from the environment; names like
+ * "constructor" must not find something on Object.prototype
+ */
+function findProvider<T>(providers: Record<string, T>, type: string): T | undefined {
+  return Object.hasOwn(providers, type) ? providers[type] : undefined;
+}
+
 export function createTTSProvider(config: ProviderConfig): TTSProvider {
-  const provider = new OpenAITTSProvider();
-  provider.initialize({
-    apiKey: config.openaiApiKey,
-    voice: config.ttsVoice,
-  });
-  return provider;
+  const entry = findProvider(TTS_PROVIDERS, config.ttsProvider);
+  if (!entry) throw new Error(`Unknown TTS provider: ${config.ttsProvider}`);
+  return entry.create(config);
 }
 
 export function createSTTProvider(config: ProviderConfig): RealtimeSTTProvider {
-  const provider = new OpenAIRealtimeSTTProvider();
-  provider.initialize({
-    apiKey: config.openaiApiKey,
-    model: config.sttModel,
-    silenceDurationMs: config.sttSilenceDurationMs,
-  });
-  return provider;
+  const entry = findProvider(STT_PROVIDERS, config.sttProvider);
+  if (!entry) throw new Error(`Unknown STT provider: ${config.sttProvider}`);
+  return entry.create(config);
 }
 
 export function createProviders(config: ProviderConfig): ProviderRegistry {
@@ -124,9 +331,21 @@ export function validateProviderConfig(config: ProviderConfig): string[] {
   if (!config.phoneNumber) {
     errors.push('Missing CALLME_PHONE_NUMBER');
   }
-  if (!config.openaiApiKey) {
-    errors.push('Missing CALLME_OPENAI_API_KEY');
+
+  const tts = findProvider(TTS_PROVIDERS, config.ttsProvider);
+  if (tts) {
+    errors.push(...tts.validate(config));
+  } else {
+    errors.push(`Unknown CALLME_TTS_PROVIDER: ${config.ttsProvider} (supported: ${TTS_PROVIDER_TYPES.join(', ')})`);
+  }
+
+  const stt = findProvider(STT_PROVIDERS, config.sttProvider);
+  if (stt) {
+    errors.push(...stt.validate(config));
+  } else {
+    errors.push(`Unknown CALLME_STT_PROVIDER: ${config.sttProvider} (supported: ${STT_PROVIDER_TYPES.join(', ')})`);
   }
 
-  return errors;
+  // Both providers may need the same setting (e.g. the OpenAI key)
+  return [...new Set(errors)];
 }
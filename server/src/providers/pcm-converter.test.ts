@@ -0,0 +1,75 @@
+/**
+ * Tests for converting local TTS output to 16-bit mono 24kHz PCM
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { pcmToWav } from '../audio-utils.js';
+import { PcmConverter } from './pcm-converter.js';
+
+function pcm16(samples: number[]): Buffer {
+  const buffer = Buffer.alloc(samples.length * 2);
+  samples.forEach((sample, i) => buffer.writeInt16LE(sample, i * 2));
+  return buffer;
+}
+
+function samplesOf(buffer: Buffer): number[] {
+  return Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+}
+
+function convertInChunks(converter: PcmConverter, data: Buffer, chunkSize: number): Buffer {
+  const output: Buffer[] = [];
+  for (let offset = 0; offset < data.length; offset += chunkSize) {
+    output.push(converter.push(data.subarray(offset, offset + chunkSize)));
+  }
+  return Buffer.concat(output);
+}
+
+describe('PcmConverter', () => {
+  test('passes raw 24kHz PCM through', () => {
+    const raw = pcm16([1, -2, 300, -400]);
+    expect(new PcmConverter().push(raw)).toEqual(raw);
+  });
+
+  test('resamples raw PCM at the configured rate', () => {
+    const output = samplesOf(new PcmConverter(8000).push(pcm16([0, 300, 600])));
+    expect(output).toEqual([0, 100, 200, 300, 400, 500, 600]);
+  });
+
+  test('reads the format from a WAV header split across chunks', () => {
+    // 48kHz stereo: left 1000, right 3000
+    const stereo = Buffer.alloc(4 * 480);
+    for (let i = 0; i < 480; i++) {
+      stereo.writeInt16LE(1000, i * 4);
+      stereo.writeInt16LE(3000, i * 4 + 2);
+    }
+    const output = samplesOf(convertInChunks(new PcmConverter(), pcmToWav(stereo, 48000, 2), 7));
+
+    expect(output.length).toBeGreaterThanOrEqual(239);
+    expect(output.length).toBeLessThanOrEqual(240);
+    expect(new Set(output)).toEqual(new Set([2000]));
+  });
+
+  test('gives the same result however the stream is chunked', () => {
+    const input = pcm16(Array.from({ length: 2205 }, (_, i) => Math.round(8000 * Math.sin(i / 10))));
+    const whole = new PcmConverter(22050).push(input);
+    expect(convertInChunks(new PcmConverter(22050), input, 333)).toEqual(whole);
+  });
+
+  test('converts 32-bit float WAV', () => {
+    const header = pcmToWav(Buffer.alloc(0), 24000);
+    header.writeUInt16LE(3, 20);  // IEEE float
+    header.writeUInt16LE(4, 32);  // block align
+    header.writeUInt16LE(32, 34);  // bits per sample
+    const floats = Buffer.alloc(8);
+    floats.writeFloatLE(0.5, 0);
+    floats.writeFloatLE(-1, 4);
+
+    expect(samplesOf(new PcmConverter().push(Buffer.concat([header, floats])))).toEqual([16384, -32767]);
+  });
+
+  test('rejects WAV formats it cannot convert', () => {
+    const header = pcmToWav(Buffer.alloc(0), 8000);
+    header.writeUInt16LE(8, 34);  // 8-bit
+    expect(() => new PcmConverter().push(header)).toThrow('Unsupported WAV output');
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * PCM Converter
+ *
+ * Turns the audio a local TTS engine writes (a WAV stream, or raw 16-bit PCM
+ * at a known rate) into the 16-bit mono 24kHz PCM that TTSProvider promises.
+ * Works chunk by chunk, so audio can be played while the engine is still
+ * writing it.
+ */
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+interface InputFormat {
+  sampleRate: number;
+  channels: number;
+  /** 16-bit integer or 32-bit float samples */
+  encoding: 'int16' | 'float32';
+}
+
+const WAV_FORMAT_PCM = 1;
+const WAV_FORMAT_FLOAT = 3;
+const WAV_FORMAT_EXTENSIBLE = 0xfffe;
+
+export class PcmConverter {
+  private rawSampleRate: number;
+  private format: InputFormat | null = null;
+  private header = Buffer.alloc(0);  // Bytes read before the format is known
+  private leftover = Buffer.alloc(0);  // Bytes short of a whole frame
+  private position = 0;  // Resampling position from `previous`, in 1/OUTPUT_SAMPLE_RATE input samples (kept exact)
+  private previous: number | null = null;  // Last input sample of the previous chunk
+
+  /**
+   * @param rawSampleRate Sample rate of raw (headerless) 16-bit mono output
+   */
+  constructor(rawSampleRate = OUTPUT_SAMPLE_RATE) {
+    this.rawSampleRate = rawSampleRate;
+  }
+
+  /**
+   * Convert the next chunk of engine output
+   * @returns 16-bit mono 24kHz PCM (may be empty while a header is being read)
+   * @throws Error on a WAV format that can't be converted
+   */
+  push(chunk: Buffer): Buffer {
+    let data = chunk;
+    if (!this.format) {
+      this.header = Buffer.concat([this.header, chunk]);
+      const start = this.readFormat();
+      if (start === null) return Buffer.alloc(0);
+      data = this.header.subarray(start);
+      this.header = Buffer.alloc(0);
+    }
+    return this.convert(data);
+  }
+
+  /**
+   * Detect WAV or raw output from the first bytes
+   * @returns Offset of the first sample, or null if more bytes are needed
+   */
+  private readFormat(): number | null {
+    const header = this.header;
+    if (header.length < 4) return null;
+    if (header.toString('ascii', 0, 4) !== 'RIFF') {
+      this.format = { sampleRate: this.rawSampleRate, channels: 1, encoding: 'int16' };
+      return 0;
+    }
+
+    // Walk the chunks after "RIFF....WAVE" until the data chunk
+    let format: InputFormat | null = null;
+    let offset = 12;
+    while (offset + 8 <= header.length) {
+      const id = header.toString('ascii', offset, offset + 4);
+      const size = header.readUInt32LE(offset + 4);
+      if (id === 'data') {
+        if (!format) throw new Error('WAV output has no fmt chunk');
+        this.format = format;
+        return offset + 8;
+      }
+      if (offset + 8 + size > header.length) return null;
+      if (id === 'fmt ') format = parseFmtChunk(header.subarray(offset + 8, offset + 8 + size));
+      offset += 8 + size + (size % 2);  // Chunks are padded to even sizes
+    }
+    return null;
+  }
+
+  private convert(data: Buffer): Buffer {
+    const format = this.format!;
+    const bytesPerSample = format.encoding === 'int16' ? 2 : 4;
+    const frameSize = bytesPerSample * format.channels;
+
+    const input = this.leftover.length > 0 ? Buffer.concat([this.leftover, data]) : data;
+    const frames = Math.floor(input.length / frameSize);
+    this.leftover = Buffer.from(input.subarray(frames * frameSize));
+
+    // Downmix to mono
+    const mono = new Float64Array(frames);
+    for (let frame = 0; frame < frames; frame++) {
+      let sum = 0;
+      for (let channel = 0; channel < format.channels; channel++) {
+        const offset = frame * frameSize + channel * bytesPerSample;
+        sum += format.encoding === 'int16' ? input.readInt16LE(offset) : input.readFloatLE(offset) * 32767;
+      }
+      mono[frame] = sum / format.channels;
+    }
+
+    return toInt16(this.resample(mono, format.sampleRate));
+  }
+
+  /**
+   * Linear interpolation across chunk boundaries. Good enough for speech that
+   * ends up as 8kHz phone audio anyway.
+   */
+  private resample(samples: Float64Array, sampleRate: number): Float64Array {
+    if (sampleRate === OUTPUT_SAMPLE_RATE || samples.length === 0) return samples;
+
+    // Index 0 is the last sample of the previous chunk, once there is one
+    let input = samples;
+    if (this.previous !== null) {
+      input = new Float64Array(samples.length + 1);
+      input[0] = this.previous;
+      input.set(samples, 1);
+    }
+    const end = (input.length - 1) * OUTPUT_SAMPLE_RATE;
+    const output: number[] = [];
+    while (this.position <= end) {
+      const index = Math.floor(this.position / OUTPUT_SAMPLE_RATE);
+      const fraction = (this.position % OUTPUT_SAMPLE_RATE) / OUTPUT_SAMPLE_RATE;
+      // Only the last position can be exactly on the last sample; anything past it waits for the next chunk
+      const next = index + 1 < input.length ? input[index + 1] : input[index];
+      output.push(input[index] * (1 - fraction) + next * fraction);
+      this.position += sampleRate;
+    }
+
+    this.position -= end;
+    this.previous = input[input.length - 1];
+    return Float64Array.from(output);
+  }
+}
+
+function parseFmtChunk(fmt: Buffer): InputFormat {
+  let formatTag = fmt.readUInt16LE(0);
+  const channels = fmt.readUInt16LE(2);
+  const sampleRate = fmt.readUInt32LE(4);
+  const bitsPerSample = fmt.readUInt16LE(14);
+  if (formatTag === WAV_FORMAT_EXTENSIBLE && fmt.length >= 26) {
+    formatTag = fmt.readUInt16LE(24);  // First two bytes of the subformat GUID
+  }
+
+  if (formatTag === WAV_FORMAT_PCM && bitsPerSample === 16) {
+    return { sampleRate, channels, encoding: 'int16' };
+  }
+  if (formatTag === WAV_FORMAT_FLOAT && bitsPerSample === 32) {
+    return { sampleRate, channels, encoding: 'float32' };
+  }
+  throw new Error(`Unsupported WAV output (format ${formatTag}, ${bitsPerSample}-bit); use 16-bit PCM or 32-bit float`);
+}
+
+function toInt16(samples: Float64Array): Buffer {
+  const output = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    output.writeInt16LE(Math.max(-32768, Math.min(32767, Math.round(samples[i]))), i * 2);
+  }
+  return output;
+}
@@ -10,6 +10,7 @@
  */
 
 import type { PhoneProvider, PhoneConfig } from './types.js';
+import { log } from '../mcp-logging.js';
 
 interface TelnyxCallResponse {
   data: {
@@ -49,7 +50,8 @@ export class TelnyxPhoneProvider implements PhoneProvider {
         from,
         webhook_url: webhookUrl,
         webhook_url_method: 'POST',
-        answering_machine_detection: 'detect',
+        // Also report when the voicemail greeting ends so a message can be left after the beep
+        answering_machine_detection: 'detect_beep',
         timeout_secs: 60,
       }),
     });
@@ -145,7 +147,7 @@ export class TelnyxPhoneProvider implements PhoneProvider {
 
     if (!response.ok) {
       const error = await response.text();
-      console.error(`Telnyx hangup failed: ${response.status} ${error}`);
+      log.error(`Telnyx hangup failed: ${response.status} ${error}`);
     }
   }
 
@@ -184,7 +186,7 @@ export class TelnyxPhoneProvider implements PhoneProvider {
   getStreamConnectXml(streamUrl: string): string {
     // For API v2, we use startStreaming() instead
     // This is kept for interface compatibility but shouldn't be called
-    console.error('Warning: getStreamConnectXml called on Telnyx v2 provider');
+    log.warn('Warning: getStreamConnectXml called on Telnyx v2 provider');
     return '';
   }
 }
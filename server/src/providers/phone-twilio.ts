@@ -10,6 +10,7 @@
  */
 
 import type { PhoneProvider, PhoneConfig } from './types.js';
+import { log } from '../mcp-logging.js';
 
 interface TwilioCallResponse {
   sid: string;
@@ -51,8 +52,12 @@ export class TwilioPhoneProvider implements PhoneProvider {
           Url: webhookUrl,
           StatusCallback: webhookUrl,  // Receive call status updates (answered, completed, etc.)
           StatusCallbackEvent: 'initiated ringing answered completed',
-          MachineDetection: 'Enable',
-          MachineDetectionTimeout: '5',
+          // Async AMD lets the media stream start right away; the result (reported once a
+          // voicemail greeting has finished) arrives separately on the same webhook
+          MachineDetection: 'DetectMessageEnd',
+          MachineDetectionTimeout: '30',
+          AsyncAmd: 'true',
+          AsyncAmdStatusCallback: webhookUrl,
         }).toString(),
       }
     );
@@ -66,6 +71,15 @@ export class TwilioPhoneProvider implements PhoneProvider {
     return data.sid;
   }
 
+  /**
+   * Answer an inbound call.
+   * Note: For Twilio, inbound calls are answered by returning TwiML from the
+   * webhook, not via a separate API call. This method is a no-op for Twilio.
+   */
+  async answerCall(_callSid: string): Promise<void> {
+    // Twilio answers inbound calls via the TwiML response in getStreamConnectXml
+  }
+
   /**
    * Start media streaming for Twilio.
    * Note: For Twilio, streaming is started via TwiML response in the webhook,
@@ -102,7 +116,7 @@ export class TwilioPhoneProvider implements PhoneProvider {
 
     if (!response.ok) {
       const error = await response.text();
-      console.error(`Twilio hangup failed: ${response.status} ${error}`);
+      log.error(`Twilio hangup failed: ${response.status} ${error}`);
     }
   }
 
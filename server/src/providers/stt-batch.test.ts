@@ -0,0 +1,158 @@
+/**
+ * Tests for the batch transcription STT provider, against a local
+ * OpenAI-compatible /audio/transcriptions server
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { pcmToMuLaw } from '../audio-utils.js';
+import { BatchSTTProvider } from './stt-batch.js';
+
+function tone(ms: number, amplitude: number): Buffer {
+  const samples = (8000 * ms) / 1000;
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(amplitude * Math.sin((2 * Math.PI * 200 * i) / 8000)), i * 2);
+  }
+  return pcmToMuLaw(pcm);
+}
+
+const utterance = (speechMs = 600) => Buffer.concat([tone(300, 0), tone(speechMs, 3000), tone(500, 0)]);
+
+interface ReceivedRequest {
+  authorization: string | null;
+  fields: Record<string, string>;
+  file: Uint8Array;
+}
+
+describe('BatchSTTProvider', () => {
+  let server: Server<undefined>;
+  const received: ReceivedRequest[] = [];
+  // Reply for the next request, or for the request with a WAV file of a given size
+  const replies: Array<{ text: string; delayMs: number; fileSize?: number; status?: number }> = [];
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const url = new URL(request.url);
+        if (url.pathname !== '/v1/audio/transcriptions') return new Response('not found', { status: 404 });
+
+        const form = await request.formData();
+        const file = new Uint8Array(await (form.get('file') as unknown as Blob).arrayBuffer());
+        const fields: Record<string, string> = {};
+        for (const [key, value] of form.entries()) {
+          if (key !== 'file') fields[key] = String(value);
+        }
+        received.push({ authorization: request.headers.get('authorization'), fields, file });
+
+        const index = replies.findIndex((reply) => reply.fileSize === undefined || reply.fileSize === file.length);
+        const reply = index >= 0 ? replies.splice(index, 1)[0] : { text: '', delayMs: 0 };
+        await Bun.sleep(reply.delayMs);
+        if (reply.status) return new Response('model overloaded', { status: reply.status });
+        return Response.json({ text: reply.text });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  function createSession(apiKey?: string) {
+    const provider = new BatchSTTProvider();
+    provider.initialize({ apiUrl: `http://localhost:${server.port}/v1/`, apiKey, model: 'small.en', silenceDurationMs: 400, vocabulary: ['ledgerd', 'payrun'] });
+    return provider.createSession({ language: 'en' });
+  }
+
+  test('posts each utterance as WAV and returns the transcript', async () => {
+    received.length = 0;
+    replies.push({ text: ' Restart ledgerd. ', delayMs: 0 });
+    const session = createSession('local-key');
+    const events: string[] = [];
+    session.onSpeechStart(() => events.push('start'));
+    session.onSpeechEnd(() => events.push('end'));
+    session.onPartial((partial) => events.push(`partial: ${partial}`));
+    await session.connect();
+
+    const transcript = session.waitForTranscript(5000);
+    session.sendAudio(utterance());
+
+    expect(await transcript).toBe('Restart ledgerd.');
+    expect(events).toEqual(['start', 'end', 'partial: Restart ledgerd.']);
+    expect(received).toHaveLength(1);
+    expect(received[0].authorization).toBe('Bearer local-key');
+    expect(received[0].fields).toEqual({ model: 'small.en', response_format: 'json', language: 'en', prompt: 'ledgerd, payrun' });
+    expect(Buffer.from(received[0].file.subarray(0, 4)).toString('ascii')).toBe('RIFF');
+    session.close();
+  });
+
+  test('keeps transcripts in the order they were spoken and queues them', async () => {
+    received.length = 0;
+    // The first utterance is longer and its transcript comes back last
+    const wavSize = (speechMs: number) => 44 + 2 * 8 * (300 + speechMs + 400);
+    replies.push({ text: 'first', delayMs: 200, fileSize: wavSize(600) }, { text: 'second', delayMs: 0, fileSize: wavSize(300) });
+    const session = createSession();
+    await session.connect();
+
+    session.sendAudio(utterance(600));
+    session.sendAudio(utterance(300));
+    await Bun.sleep(400);
+
+    expect(received[0].authorization).toBeNull();
+    expect(session.takeQueuedTranscripts()).toEqual(['first', 'second']);
+    session.close();
+  });
+
+  test('keeps transcribing after a request fails mid-call', async () => {
+    replies.length = 0;
+    replies.push({ text: 'first', delayMs: 0 }, { text: '', delayMs: 0, status: 500 }, { text: 'third', delayMs: 0 });
+    const session = createSession();
+    const events: string[] = [];
+    session.onPartial((partial) => events.push(partial));
+    session.onSpeechDropped(() => events.push('dropped'));
+    await session.connect();
+
+    session.sendAudio(utterance());
+    session.sendAudio(utterance());
+    session.sendAudio(utterance());
+    await Bun.sleep(400);
+
+    expect(session.takeQueuedTranscripts()).toEqual(['first', 'third']);
+    expect(events).toEqual(['first', 'dropped', 'third']);
+    session.close();
+  });
+
+  test('keeps delivering after a transcript callback throws', async () => {
+    replies.length = 0;
+    replies.push({ text: 'first', delayMs: 0 }, { text: 'second', delayMs: 0 });
+    const session = createSession();
+    session.onPartial((partial) => {
+      if (partial === 'first') throw new Error('listener failed');
+    });
+    await session.connect();
+
+    session.sendAudio(utterance());
+    session.sendAudio(utterance());
+    await Bun.sleep(400);
+
+    expect(session.takeQueuedTranscripts()).toEqual(['second']);
+    session.close();
+  });
+
+  test('drops empty transcripts and failed requests', async () => {
+    const provider = new BatchSTTProvider();
+    provider.initialize({ apiUrl: `http://localhost:${server.port}/missing`, silenceDurationMs: 400 });
+    const session = provider.createSession();
+    let dropped = 0;
+    session.onSpeechDropped(() => dropped++);
+    await session.connect();
+
+    session.sendAudio(utterance());
+    await Bun.sleep(100);
+
+    expect(session.takeQueuedTranscripts()).toEqual([]);
+    expect(dropped).toBe(1);
+    session.close();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Batch Transcription STT Provider
+ *
+ * For speech servers without a realtime API (whisper.cpp server,
+ * faster-whisper behind an OpenAI-compatible API):
+ * - Local energy/zero-crossing VAD cuts the call audio into utterances
+ * - Each utterance is posted as a WAV file to {apiUrl}/audio/transcriptions
+ * - Transcripts come back in the order the utterances were spoken
+ */
+
+import { pcmToWav } from '../audio-utils.js';
+import type { RealtimeSTTProvider, RealtimeSTTSession, SemanticVadEagerness, STTConfig, STTSessionOptions, TurnDetection } from './types.js';
+import { TranscriptDelivery } from './transcript-delivery.js';
+import { EnergyVad } from './vad.js';
+import { log } from '../mcp-logging.js';
+
+const DEFAULT_VAD_THRESHOLD = 600;
+
+/**
+ * Silence that ends an utterance under semantic_vad. This VAD can't tell
+ * whether the speaker sounds finished, so eagerness only changes how long it waits.
+ */
+const EAGERNESS_SILENCE_MS: Record<SemanticVadEagerness, number> = {
+  low: 2000,
+  medium: 1200,
+  high: 600,
+  auto: 1200,
+};
+
+interface BatchSettings {
+  endpoint: string;
+  apiKey: string | undefined;
+  model: string;
+  silenceDurationMs: number;
+  vadThreshold: number;
+  prompt: string | undefined;
+  language: string | undefined;
+}
+
+export class BatchSTTProvider implements RealtimeSTTProvider {
+  readonly name = 'batch';
+  private settings: Omit<BatchSettings, 'language'> | null = null;
+
+  initialize(config: STTConfig): void {
+    if (!config.apiUrl) {
+      throw new Error('API URL required for batch STT');
+    }
+    this.settings = {
+      endpoint: `${config.apiUrl.replace(/\/+$/, '')}/audio/transcriptions`,
+      apiKey: config.apiKey || undefined,
+      model: config.model || 'whisper-1',
+      silenceDurationMs: config.silenceDurationMs || 800,
+      vadThreshold: config.vadThreshold || DEFAULT_VAD_THRESHOLD,
+      prompt: config.vocabulary?.length ? config.vocabulary.join(', ') : undefined,
+    };
+    console.error(`STT provider: Batch (${this.settings.model}, url: ${this.settings.endpoint}, silence: ${this.settings.silenceDurationMs}ms, vad threshold: ${this.settings.vadThreshold})`);
+  }
+
+  createSession(options: STTSessionOptions = {}): RealtimeSTTSession {
+    if (!this.settings) throw new Error('Batch STT not initialized');
+    return new BatchSTTSession({ ...this.settings, language: options.language });
+  }
+}
+
+class BatchSTTSession implements RealtimeSTTSession {
+  private settings: BatchSettings;
+  private vad: EnergyVad;
+  private connected = false;
+  private transcripts = new TranscriptDelivery();
+  private onPartialCallback: ((partial: string) => void) | null = null;
+  private onSpeechStartCallback: (() => void) | null = null;
+  private onSpeechEndCallback: (() => void) | null = null;
+  private onSpeechDroppedCallback: (() => void) | null = null;
+  private inFlight = new AbortController();  // Aborts requests still running at close
+  private lastTranscription: Promise<void> = Promise.resolve();  // Keeps transcripts in order
+
+  constructor(settings: BatchSettings) {
+    this.settings = settings;
+    this.vad = new EnergyVad({ threshold: settings.vadThreshold, silenceDurationMs: settings.silenceDurationMs });
+  }
+
+  async connect(): Promise<void> {
+    // Nothing to hold open; each utterance is its own request
+    this.inFlight = new AbortController();
+    this.connected = true;
+    console.error(`[BatchSTT] Ready (${this.settings.endpoint})`);
+  }
+
+  sendAudio(muLawData: Buffer): void {
+    if (!this.connected) return;
+
+    for (const event of this.vad.push(muLawData)) {
+      if (event.type === 'speech_start') {
+        console.error('[BatchSTT] Speech started');
+        this.onSpeechStartCallback?.();
+      } else {
+        console.error(`[BatchSTT] Speech stopped (${(event.audio.length / 16000).toFixed(1)}s)`);
+        this.onSpeechEndCallback?.();
+        const request = this.transcribe(event.audio);
+        this.lastTranscription = this.lastTranscription
+          .then(() => request)
+          .then((transcript) => {
+            if (!this.connected) return;
+            if (!transcript) {
+              this.onSpeechDroppedCallback?.();
+              return;
+            }
+            console.error(`[BatchSTT] Transcript: ${transcript}`);
+            // No streaming results; the whole utterance is the only partial there is
+            this.onPartialCallback?.(transcript);
+            this.transcripts.deliver(transcript);
+          })
+          // A failure here mustn't hold up the utterances after it
+          .catch((error) => log.error('[BatchSTT] Failed to deliver transcript:', error));
+      }
+    }
+  }
+
+  /**
+   * Post one utterance to the transcription endpoint
+   * @returns The transcript, or null if the request failed
+   */
+  private async transcribe(pcm: Buffer): Promise<string | null> {
+    const form = new FormData();
+    form.append('file', new Blob([new Uint8Array(pcmToWav(pcm, 8000))], { type: 'audio/wav' }), 'utterance.wav');
+    form.append('model', this.settings.model);
+    form.append('response_format', 'json');
+    if (this.settings.language) form.append('language', this.settings.language);
+    if (this.settings.prompt) form.append('prompt', this.settings.prompt);
+
+    try {
+      const response = await fetch(this.settings.endpoint, {
+        method: 'POST',
+        headers: this.settings.apiKey ? { 'Authorization': `Bearer ${this.settings.apiKey}` } : {},
+        body: form,
+        signal: this.inFlight.signal,
+      });
+      if (!response.ok) {
+        log.error(`[BatchSTT] Transcription failed: ${response.status} ${await response.text()}`);
+        return null;
+      }
+      const result = await response.json() as { text?: string };
+      return result.text?.trim() || null;
+    } catch (error) {
+      if (!this.inFlight.signal.aborted) {
+        log.error('[BatchSTT] Transcription request failed:', error);
+      }
+      return null;
+    }
+  }
+
+  setTurnDetection(detection: TurnDetection): void {
+    const silenceMs = detection.type === 'semantic_vad'
+      ? EAGERNESS_SILENCE_MS[detection.eagerness]
+      : this.settings.silenceDurationMs;
+    console.error(`[BatchSTT] Turn detection: ${detection.type} (silence: ${silenceMs}ms)`);
+    this.vad.setSilenceDuration(silenceMs);
+  }
+
+  onPartial(callback: (partial: string) => void): void {
+    this.onPartialCallback = callback;
+  }
+
+  onSpeechStart(callback: () => void): void {
+    this.onSpeechStartCallback = callback;
+  }
+
+  onSpeechEnd(callback: () => void): void {
+    this.onSpeechEndCallback = callback;
+  }
+
+  onSpeechDropped(callback: () => void): void {
+    this.onSpeechDroppedCallback = callback;
+  }
+
+  async waitForTranscript(timeoutMs: number = 30000, signal?: AbortSignal): Promise<string> {
+    return this.transcripts.wait(timeoutMs, signal);
+  }
+
+  takeQueuedTranscripts(): string[] {
+    return this.transcripts.take();
+  }
+
+  close(): void {
+    this.connected = false;
+    this.inFlight.abort();
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
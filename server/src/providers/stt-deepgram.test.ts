@@ -0,0 +1,168 @@
+/**
+ * Tests for the Deepgram live STT provider, against a local stand-in WebSocket server
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import { WebSocketServer, type WebSocket } from 'ws';
+import type { AddressInfo } from 'net';
+import { DeepgramSTTProvider, listenUrl } from './stt-deepgram.js';
+import type { RealtimeSTTSession } from './types.js';
+
+interface Connection {
+  socket: WebSocket;
+  url: URL;
+  authorization: string | undefined;
+  audio: Buffer[];
+  messages: unknown[];
+}
+
+function results(transcript: string, isFinal: boolean, speechFinal = false) {
+  return { type: 'Results', channel: { alternatives: [{ transcript }] }, is_final: isFinal, speech_final: speechFinal };
+}
+
+describe('listenUrl', () => {
+  const settings = { apiKey: 'key', apiUrl: 'https://dg.internal/v1/', model: 'nova-2', endpointingMs: 500, keywords: ['ledgerd', 'payrun'] };
+
+  test('asks for mu-law 8kHz with interim results, endpointing and keywords', () => {
+    const url = new URL(listenUrl(settings, 'en'));
+    expect(url.origin + url.pathname).toBe('wss://dg.internal/v1/listen');
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      encoding: 'mulaw',
+      sample_rate: '8000',
+      model: 'nova-2',
+      interim_results: 'true',
+      endpointing: '500',
+      utterance_end_ms: '1000',
+      language: 'en',
+    });
+    expect(url.searchParams.getAll('keywords')).toEqual(['ledgerd', 'payrun']);
+  });
+
+  test('sends key terms to nova-3', () => {
+    const url = new URL(listenUrl({ ...settings, model: 'nova-3' }));
+    expect(url.searchParams.getAll('keyterm')).toEqual(['ledgerd', 'payrun']);
+    expect(url.searchParams.has('language')).toBe(false);
+  });
+});
+
+describe('DeepgramSTTProvider', () => {
+  let server: WebSocketServer;
+  const connections: Connection[] = [];
+
+  beforeAll(async () => {
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket, request) => {
+      const connection: Connection = {
+        socket,
+        url: new URL(request.url!, 'ws://localhost'),
+        authorization: request.headers.authorization,
+        audio: [],
+        messages: [],
+      };
+      socket.on('message', (data: Buffer, isBinary) => {
+        if (isBinary) connection.audio.push(data);
+        else connection.messages.push(JSON.parse(data.toString()));
+      });
+      connections.push(connection);
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function connectSession(): Promise<{ session: RealtimeSTTSession; connection: Connection }> {
+    connections.length = 0;
+    const provider = new DeepgramSTTProvider();
+    provider.initialize({
+      apiKey: 'dg-key',
+      apiUrl: `http://localhost:${(server.address() as AddressInfo).port}/v1`,
+      vocabulary: ['ledgerd'],
+    });
+    const session = provider.createSession();
+    await session.connect();
+    await waitFor(() => connections.length > 0);
+    return { session, connection: connections[0] };
+  }
+
+  async function waitFor(condition: () => boolean, timeoutMs = 3000): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+      await Bun.sleep(10);
+    }
+  }
+
+  function send(connection: Connection, ...events: unknown[]): void {
+    for (const event of events) connection.socket.send(JSON.stringify(event));
+  }
+
+  test('streams audio and joins final pieces into one transcript at the endpoint', async () => {
+    const { session, connection } = await connectSession();
+    const events: string[] = [];
+    session.onSpeechStart(() => events.push('start'));
+    session.onSpeechEnd(() => events.push('end'));
+    session.onPartial((partial) => events.push(`partial: ${partial}`));
+
+    expect(connection.authorization).toBe('Token dg-key');
+    expect(connection.url.searchParams.get('keywords')).toBe('ledgerd');
+    session.sendAudio(Buffer.alloc(160, 0xff));
+    await waitFor(() => connection.audio.length === 1);
+
+    const transcript = session.waitForTranscript(3000);
+    send(
+      connection,
+      { type: 'SpeechStarted' },
+      results('restart', false),
+      results('Restart ledgerd', true),
+      results('on', false),
+      results('on staging.', true, true),
+    );
+
+    expect(await transcript).toBe('Restart ledgerd on staging.');
+    expect(events).toEqual([
+      'start',
+      'partial: restart',
+      'partial: Restart ledgerd',
+      'partial: Restart ledgerd on',
+      'partial: Restart ledgerd on staging.',
+      'end',
+    ]);
+
+    session.close();
+    await waitFor(() => connection.messages.length === 1);
+    expect(connection.messages).toEqual([{ type: 'CloseStream' }]);
+  });
+
+  test('ends an utterance at UtteranceEnd and queues it when nobody waits', async () => {
+    const { session, connection } = await connectSession();
+
+    send(connection, results('Ship it', true), { type: 'UtteranceEnd' });
+    await waitFor(() => session.takeQueuedTranscripts().join() === 'Ship it');
+    session.close();
+  });
+
+  test('waits for UtteranceEnd under semantic_vad', async () => {
+    const { session, connection } = await connectSession();
+    session.setTurnDetection({ type: 'semantic_vad', eagerness: 'low' });
+
+    const transcript = session.waitForTranscript(3000);
+    send(connection, results('Use the', true, true), results('old schema.', true, true), { type: 'UtteranceEnd' });
+
+    expect(await transcript).toBe('Use the old schema.');
+    session.close();
+  });
+
+  test('reconnects after the connection drops', async () => {
+    const { session, connection } = await connectSession();
+    connection.socket.terminate();
+
+    await waitFor(() => connections.length === 2 && session.isConnected());
+    const transcript = session.waitForTranscript(3000);
+    send(connections[1], results('Still here.', true, true));
+
+    expect(await transcript).toBe('Still here.');
+    session.close();
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * Deepgram Live STT Provider
+ *
+ * Uses Deepgram's live transcription WebSocket with:
+ * - Direct mu-law 8kHz audio (no conversion needed)
+ * - Interim results as partials, finalized pieces joined into one transcript
+ * - Endpointing (speech_final) and UtteranceEnd to end an utterance
+ * - Keyword boosting from the configured vocabulary
+ */
+
+import WebSocket from 'ws';
+import type { RealtimeSTTProvider, RealtimeSTTSession, STTConfig, STTSessionOptions, TurnDetection } from './types.js';
+import { TranscriptDelivery } from './transcript-delivery.js';
+import { log } from '../mcp-logging.js';
+
+const DEFAULT_API_URL = 'wss://api.deepgram.com/v1';
+
+/** Deepgram won't send UtteranceEnd for gaps shorter than this */
+const MIN_UTTERANCE_END_MS = 1000;
+
+interface DeepgramSettings {
+  apiKey: string | undefined;
+  apiUrl: string;
+  model: string;
+  endpointingMs: number;
+  keywords: string[];
+}
+
+/**
+ * Build the live transcription URL for a session
+ */
+export function listenUrl(settings: DeepgramSettings, language?: string): string {
+  const base = settings.apiUrl.replace(/\/+$/, '').replace(/^http/, 'ws');
+  const params = new URLSearchParams({
+    encoding: 'mulaw',
+    sample_rate: '8000',
+    channels: '1',
+    model: settings.model,
+    smart_format: 'true',
+    interim_results: 'true',
+    vad_events: 'true',
+    endpointing: String(settings.endpointingMs),
+    utterance_end_ms: String(Math.max(MIN_UTTERANCE_END_MS, settings.endpointingMs)),
+  });
+  if (language) params.set('language', language);
+  // Nova-3 takes key terms; older models take boosted keywords
+  const keywordParam = settings.model.startsWith('nova-3') ? 'keyterm' : 'keywords';
+  for (const keyword of settings.keywords) params.append(keywordParam, keyword);
+  return `${base}/listen?${params}`;
+}
+
+export class DeepgramSTTProvider implements RealtimeSTTProvider {
+  readonly name = 'deepgram';
+  private settings: DeepgramSettings | null = null;
+
+  initialize(config: STTConfig): void {
+    if (!config.apiKey && !config.apiUrl) {
+      throw new Error('Deepgram API key required for STT');
+    }
+    this.settings = {
+      apiKey: config.apiKey || undefined,
+      apiUrl: config.apiUrl || DEFAULT_API_URL,
+      model: config.model || 'nova-2',
+      endpointingMs: config.silenceDurationMs || 800,
+      keywords: config.vocabulary ?? [],
+    };
+    const endpoint = config.apiUrl ? `, url: ${config.apiUrl}` : '';
+    console.error(`STT provider: Deepgram (${this.settings.model}, endpointing: ${this.settings.endpointingMs}ms, keywords: ${this.settings.keywords.length}${endpoint})`);
+  }
+
+  createSession(options: STTSessionOptions = {}): RealtimeSTTSession {
+    if (!this.settings) throw new Error('Deepgram STT not initialized');
+    return new DeepgramSTTSession(listenUrl(this.settings, options.language), this.settings.apiKey);
+  }
+}
+
+class DeepgramSTTSession implements RealtimeSTTSession {
+  private ws: WebSocket | null = null;
+  private url: string;
+  private apiKey: string | undefined;
+  private connected = false;
+  private transcripts = new TranscriptDelivery();
+  private finalized: string[] = [];  // Final pieces of the utterance in progress
+  private speaking = false;
+  private endOnSpeechFinal = true;  // False: wait for UtteranceEnd (longer pauses allowed)
+  private onPartialCallback: ((partial: string) => void) | null = null;
+  private onSpeechStartCallback: (() => void) | null = null;
+  private onSpeechEndCallback: (() => void) | null = null;
+  private onSpeechDroppedCallback: (() => void) | null = null;
+  private closed = false;  // True when intentionally closed
+  private reconnectAttempts = 0;
+  private maxReconnectAttempts = 5;
+  private reconnectDelayMs = 1000;
+
+  constructor(url: string, apiKey: string | undefined) {
+    this.url = url;
+    this.apiKey = apiKey;
+  }
+
+  async connect(): Promise<void> {
+    this.closed = false;
+    this.reconnectAttempts = 0;
+    return this.doConnect();
+  }
+
+  private async doConnect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.ws = new WebSocket(this.url, {
+        headers: this.apiKey ? { 'Authorization': `Token ${this.apiKey}` } : {},
+      });
+
+      this.ws.on('open', () => {
+        console.error('[DeepgramSTT] WebSocket connected');
+        this.connected = true;
+        this.reconnectAttempts = 0;  // Reset on successful connection
+        resolve();
+      });
+
+      this.ws.on('message', (data: Buffer, isBinary: boolean) => {
+        if (isBinary) return;
+        try {
+          this.handleEvent(JSON.parse(data.toString()));
+        } catch (e) {
+          log.error('[DeepgramSTT] Failed to parse event:', e);
+        }
+      });
+
+      this.ws.on('error', (error) => {
+        log.error('[DeepgramSTT] WebSocket error:', error);
+        if (!this.connected) reject(error);
+      });
+
+      this.ws.on('close', (code, reason) => {
+        console.error(`[DeepgramSTT] WebSocket closed (code: ${code}, reason: ${reason || 'none'})`);
+        this.connected = false;
+
+        // Words finalized before the drop would otherwise be lost
+        this.endUtterance();
+
+        // Attempt reconnection if not intentionally closed
+        if (!this.closed) {
+          this.attemptReconnect();
+        }
+      });
+
+      setTimeout(() => {
+        if (!this.connected) {
+          reject(new Error('Deepgram STT connection timeout'));
+        }
+      }, 10000);
+    });
+  }
+
+  private async attemptReconnect(): Promise<void> {
+    if (this.closed) {
+      console.error('[DeepgramSTT] Not reconnecting - session intentionally closed');
+      return;
+    }
+
+    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
+      console.error(`[DeepgramSTT] Max reconnect attempts (${this.maxReconnectAttempts}) reached, giving up`);
+      return;
+    }
+
+    this.reconnectAttempts++;
+    const delay = this.reconnectDelayMs * Math.pow(2, this.reconnectAttempts - 1);  // Exponential backoff
+    console.error(`[DeepgramSTT] Attempting reconnect ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${delay}ms...`);
+
+    await new Promise(resolve => setTimeout(resolve, delay));
+
+    if (this.closed) {
+      console.error('[DeepgramSTT] Reconnect cancelled - session was closed');
+      return;
+    }
+
+    try {
+      await this.doConnect();
+      console.error('[DeepgramSTT] Reconnected successfully');
+    } catch (error) {
+      log.error('[DeepgramSTT] Reconnect failed:', error);
+      // The close handler will trigger another reconnect attempt
+    }
+  }
+
+  private handleEvent(event: any): void {
+    switch (event.type) {
+      case 'Results': {
+        const transcript: string = event.channel?.alternatives?.[0]?.transcript ?? '';
+        if (transcript) this.startSpeech();
+
+        if (event.is_final) {
+          if (transcript) this.finalized.push(transcript);
+          if (this.finalized.length > 0) this.onPartialCallback?.(this.finalized.join(' '));
+          if (event.speech_final && this.endOnSpeechFinal) this.endUtterance();
+        } else if (transcript) {
+          this.onPartialCallback?.([...this.finalized, transcript].join(' '));
+        }
+        break;
+      }
+
+      case 'SpeechStarted':
+        this.startSpeech();
+        break;
+
+      case 'UtteranceEnd':
+        this.endUtterance();
+        break;
+
+      case 'Metadata':
+        console.error(`[DeepgramSTT] Session ${event.request_id ?? 'started'}`);
+        break;
+
+      case 'Error':
+        log.error('[DeepgramSTT] Error:', event.description ?? event.message ?? event);
+        break;
+    }
+  }
+
+  private startSpeech(): void {
+    if (this.speaking) return;
+    console.error('[DeepgramSTT] Speech started');
+    this.speaking = true;
+    this.onSpeechStartCallback?.();
+  }
+
+  /**
+   * Hand over the finalized pieces as one transcript
+   */
+  private endUtterance(): void {
+    const wasSpeaking = this.speaking;
+    if (this.speaking) {
+      console.error('[DeepgramSTT] Speech stopped');
+      this.speaking = false;
+      this.onSpeechEndCallback?.();
+    }
+    if (this.finalized.length === 0) {
+      // Speech started, but no words were finalized for it
+      if (wasSpeaking) this.onSpeechDroppedCallback?.();
+      return;
+    }
+
+    const transcript = this.finalized.join(' ');
+    this.finalized = [];
+    console.error(`[DeepgramSTT] Transcript: ${transcript}`);
+    this.transcripts.deliver(transcript);
+  }
+
+  /**
+   * Deepgram can't change endpointing mid-stream. semantic_vad ends the
+   * utterance at UtteranceEnd (a longer gap) instead of the first endpoint,
+   * except with high eagerness.
+   */
+  setTurnDetection(detection: TurnDetection): void {
+    const endOnSpeechFinal = detection.type === 'server_vad' || detection.eagerness === 'high';
+    if (endOnSpeechFinal === this.endOnSpeechFinal) return;
+
+    this.endOnSpeechFinal = endOnSpeechFinal;
+    console.error(`[DeepgramSTT] Turn detection: ${detection.type} (ends at ${endOnSpeechFinal ? 'endpoint' : 'utterance end'})`);
+  }
+
+  sendAudio(muLawData: Buffer): void {
+    if (!this.connected || this.ws?.readyState !== WebSocket.OPEN) return;
+    this.ws.send(muLawData);
+  }
+
+  onPartial(callback: (partial: string) => void): void {
+    this.onPartialCallback = callback;
+  }
+
+  onSpeechStart(callback: () => void): void {
+    this.onSpeechStartCallback = callback;
+  }
+
+  onSpeechEnd(callback: () => void): void {
+    this.onSpeechEndCallback = callback;
+  }
+
+  onSpeechDropped(callback: () => void): void {
+    this.onSpeechDroppedCallback = callback;
+  }
+
+  async waitForTranscript(timeoutMs: number = 30000, signal?: AbortSignal): Promise<string> {
+    return this.transcripts.wait(timeoutMs, signal);
+  }
+
+  takeQueuedTranscripts(): string[] {
+    return this.transcripts.take();
+  }
+
+  close(): void {
+    this.closed = true;  // Prevent reconnection attempts
+    if (this.ws) {
+      if (this.ws.readyState === WebSocket.OPEN) {
+        this.ws.send(JSON.stringify({ type: 'CloseStream' }));
+      }
+      this.ws.close();
+      this.ws = null;
+    }
+    this.connected = false;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+}
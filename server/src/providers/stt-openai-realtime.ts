@@ -8,48 +8,77 @@
  */
 
 import WebSocket from 'ws';
-import type { RealtimeSTTProvider, RealtimeSTTSession, STTConfig } from './types.js';
+import type { RealtimeSTTProvider, RealtimeSTTSession, STTConfig, STTSessionOptions, TurnDetection } from './types.js';
+import { TranscriptDelivery } from './transcript-delivery.js';
+import { log } from '../mcp-logging.js';
+
+const DEFAULT_API_URL = 'https://api.openai.com/v1';
+
+/**
+ * Build the transcription WebSocket URL from an API base URL
+ * (https://host/v1 -> wss://host/v1/realtime?intent=transcription)
+ */
+function realtimeUrl(apiUrl: string): string {
+  return `${apiUrl.replace(/\/+$/, '').replace(/^http/, 'ws')}/realtime?intent=transcription`;
+}
 
 export class OpenAIRealtimeSTTProvider implements RealtimeSTTProvider {
   readonly name = 'openai-realtime';
   private apiKey: string | null = null;
+  private url: string = realtimeUrl(DEFAULT_API_URL);
   private model: string = 'gpt-4o-transcribe';
   private silenceDurationMs: number = 800;
+  private prompt: string | undefined;
 
   initialize(config: STTConfig): void {
-    if (!config.apiKey) {
+    // Self-hosted OpenAI-compatible servers often don't check the key
+    if (!config.apiKey && !config.apiUrl) {
       throw new Error('OpenAI API key required for Realtime STT');
     }
-    this.apiKey = config.apiKey;
+    this.apiKey = config.apiKey || 'none';
+    this.url = realtimeUrl(config.apiUrl || DEFAULT_API_URL);
     this.model = config.model || 'gpt-4o-transcribe';
     this.silenceDurationMs = config.silenceDurationMs || 800;
-    console.error(`STT provider: OpenAI Realtime (${this.model}, silence: ${this.silenceDurationMs}ms)`);
+    // The transcription model takes free-form context; a list of names is enough to steer spelling
+    this.prompt = config.vocabulary?.length ? config.vocabulary.join(', ') : undefined;
+    const endpoint = config.apiUrl ? `, url: ${this.url}` : '';
+    console.error(`STT provider: OpenAI Realtime (${this.model}, silence: ${this.silenceDurationMs}ms, vocabulary: ${config.vocabulary?.length ?? 0} terms${endpoint})`);
   }
 
-  createSession(): RealtimeSTTSession {
+  createSession(options: STTSessionOptions = {}): RealtimeSTTSession {
     if (!this.apiKey) throw new Error('OpenAI Realtime STT not initialized');
-    return new OpenAIRealtimeSTTSession(this.apiKey, this.model, this.silenceDurationMs);
+    return new OpenAIRealtimeSTTSession(this.url, this.apiKey, this.model, this.silenceDurationMs, this.prompt, options.language);
   }
 }
 
 class OpenAIRealtimeSTTSession implements RealtimeSTTSession {
   private ws: WebSocket | null = null;
+  private url: string;
   private apiKey: string;
   private model: string;
   private silenceDurationMs: number;
+  private prompt: string | undefined;
+  private language: string | undefined;
+  private turnDetection: TurnDetection = { type: 'server_vad' };
   private connected = false;
   private pendingTranscript = '';
-  private onTranscriptCallback: ((transcript: string) => void) | null = null;
+  private transcripts = new TranscriptDelivery();
   private onPartialCallback: ((partial: string) => void) | null = null;
+  private onSpeechStartCallback: (() => void) | null = null;
+  private onSpeechEndCallback: (() => void) | null = null;
+  private onSpeechDroppedCallback: (() => void) | null = null;
   private closed = false;  // True when intentionally closed
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelayMs = 1000;
 
-  constructor(apiKey: string, model: string, silenceDurationMs: number) {
+  constructor(url: string, apiKey: string, model: string, silenceDurationMs: number, prompt?: string, language?: string) {
+    this.url = url;
     this.apiKey = apiKey;
     this.model = model;
     this.silenceDurationMs = silenceDurationMs;
+    this.prompt = prompt;
+    this.language = language;
   }
 
   async connect(): Promise<void> {
@@ -60,9 +89,7 @@ class OpenAIRealtimeSTTSession implements RealtimeSTTSession {
 
   private async doConnect(): Promise<void> {
     return new Promise((resolve, reject) => {
-      const url = 'wss://api.openai.com/v1/realtime?intent=transcription';
-
-      this.ws = new WebSocket(url, {
+      this.ws = new WebSocket(this.url, {
         headers: {
           'Authorization': `Bearer ${this.apiKey}`,
           'OpenAI-Beta': 'realtime=v1',
@@ -81,13 +108,10 @@ class OpenAIRealtimeSTTSession implements RealtimeSTTSession {
             input_audio_format: 'g711_ulaw',
             input_audio_transcription: {
               model: this.model,
+              ...(this.language && { language: this.language }),
+              ...(this.prompt && { prompt: this.prompt }),
             },
-            turn_detection: {
-              type: 'server_vad',
-              threshold: 0.5,
-              prefix_padding_ms: 300,
-              silence_duration_ms: this.silenceDurationMs,
-            },
+            turn_detection: this.turnDetectionConfig(),
           },
         });
 
@@ -99,12 +123,12 @@ class OpenAIRealtimeSTTSession implements RealtimeSTTSession {
           const event = JSON.parse(data.toString());
           this.handleEvent(event);
         } catch (e) {
-          console.error('[RealtimeSTT] Failed to parse event:', e);
+          log.error('[RealtimeSTT] Failed to parse event:', e);
         }
       });
 
       this.ws.on('error', (error) => {
-        console.error('[RealtimeSTT] WebSocket error:', error);
+        log.error('[RealtimeSTT] WebSocket error:', error);
         if (!this.connected) reject(error);
       });
 
@@ -152,7 +176,7 @@ class OpenAIRealtimeSTTSession implements RealtimeSTTSession {
       await this.doConnect();
       console.error('[RealtimeSTT] Reconnected successfully');
     } catch (error) {
-      console.error('[RealtimeSTT] Reconnect failed:', error);
+      log.error('[RealtimeSTT] Reconnect failed:', error);
       // The close handler will trigger another reconnect attempt
     }
   }
@@ -174,18 +198,28 @@ class OpenAIRealtimeSTTSession implements RealtimeSTTSession {
       case 'conversation.item.input_audio_transcription.completed':
         console.error(`[RealtimeSTT] Transcript: ${event.transcript}`);
         if (event.transcript) {
-          this.onTranscriptCallback?.(event.transcript);
+          this.transcripts.deliver(event.transcript);
+        } else {
+          this.onSpeechDroppedCallback?.();
         }
         this.pendingTranscript = '';
         break;
 
+      case 'conversation.item.input_audio_transcription.failed':
+        log.error('[RealtimeSTT] Transcription failed:', event.error);
+        this.pendingTranscript = '';
+        this.onSpeechDroppedCallback?.();
+        break;
+
       case 'input_audio_buffer.speech_started':
         console.error('[RealtimeSTT] Speech started');
         this.pendingTranscript = '';
+        this.onSpeechStartCallback?.();
         break;
 
       case 'input_audio_buffer.speech_stopped':
         console.error('[RealtimeSTT] Speech stopped');
+        this.onSpeechEndCallback?.();
         break;
 
       case 'input_audio_buffer.committed':
@@ -193,11 +227,34 @@ class OpenAIRealtimeSTTSession implements RealtimeSTTSession {
         break;
 
       case 'error':
-        console.error('[RealtimeSTT] Error:', event.error);
+        log.error('[RealtimeSTT] Error:', event.error);
         break;
     }
   }
 
+  private turnDetectionConfig(): object {
+    if (this.turnDetection.type === 'semantic_vad') {
+      return { type: 'semantic_vad', eagerness: this.turnDetection.eagerness };
+    }
+    return {
+      type: 'server_vad',
+      threshold: 0.5,
+      prefix_padding_ms: 300,
+      silence_duration_ms: this.silenceDurationMs,
+    };
+  }
+
+  setTurnDetection(detection: TurnDetection): void {
+    if (JSON.stringify(detection) === JSON.stringify(this.turnDetection)) return;
+
+    this.turnDetection = detection;
+    console.error(`[RealtimeSTT] Turn detection: ${detection.type}`);
+    this.sendEvent({
+      type: 'transcription_session.update',
+      session: { turn_detection: this.turnDetectionConfig() },
+    });
+  }
+
   private sendEvent(event: any): void {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(event));
@@ -216,19 +273,24 @@ class OpenAIRealtimeSTTSession implements RealtimeSTTSession {
     this.onPartialCallback = callback;
   }
 
-  async waitForTranscript(timeoutMs: number = 30000): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        this.onTranscriptCallback = null;
-        reject(new Error('Transcript timeout'));
-      }, timeoutMs);
-
-      this.onTranscriptCallback = (transcript) => {
-        clearTimeout(timeout);
-        this.onTranscriptCallback = null;
-        resolve(transcript);
-      };
-    });
+  onSpeechStart(callback: () => void): void {
+    this.onSpeechStartCallback = callback;
+  }
+
+  onSpeechEnd(callback: () => void): void {
+    this.onSpeechEndCallback = callback;
+  }
+
+  onSpeechDropped(callback: () => void): void {
+    this.onSpeechDroppedCallback = callback;
+  }
+
+  async waitForTranscript(timeoutMs: number = 30000, signal?: AbortSignal): Promise<string> {
+    return this.transcripts.wait(timeoutMs, signal);
+  }
+
+  takeQueuedTranscripts(): string[] {
+    return this.transcripts.take();
   }
 
   close(): void {
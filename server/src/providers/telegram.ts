@@ -4,6 +4,8 @@
  * Handles Telegram Bot API integration for text-based communication with users.
  */
 
+import { log } from '../mcp-logging.js';
+
 export interface TelegramConfig {
   botToken: string;
   chatId: string;
@@ -111,7 +113,7 @@ export class TelegramBotProvider implements TelegramProvider {
 
         if (attempt < this.maxRetries) {
           const delay = this.retryDelayMs * Math.pow(2, attempt);
-          console.error(`[Telegram] ${operation} failed (attempt ${attempt + 1}/${this.maxRetries + 1}), retrying in ${delay}ms: ${lastError.message}`);
+          log.warn(`[Telegram] ${operation} failed (attempt ${attempt + 1}/${this.maxRetries + 1}), retrying in ${delay}ms: ${lastError.message}`);
           await this.sleep(delay);
         }
       }
@@ -143,7 +145,7 @@ export class TelegramBotProvider implements TelegramProvider {
     } catch (error) {
       // Markdown parse failure -> retry as plain text (only for entity parsing errors)
       if (error instanceof TelegramApiError && error.statusCode === 400 && error.message.includes("can't parse entities")) {
-        console.error('[Telegram] Markdown parse failed, retrying as plain text');
+        log.warn('[Telegram] Markdown parse failed, retrying as plain text');
         const result = await this.fetchWithRetry<{ message_id: number }>(
           `${this.baseUrl}/sendMessage`,
           {
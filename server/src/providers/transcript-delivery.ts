@@ -0,0 +1,65 @@
+/**
+ * Transcript Delivery
+ *
+ * The waitForTranscript/takeQueuedTranscripts half of RealtimeSTTSession,
+ * shared by the STT sessions: a finished transcript goes to the pending wait,
+ * or into a queue when nobody is waiting.
+ */
+
+export class TranscriptDelivery {
+  private onTranscriptCallback: ((transcript: string) => void) | null = null;
+  private queue: string[] = [];  // Transcripts that completed with no wait pending
+
+  /**
+   * Hand a finished transcript to the pending wait, or queue it
+   */
+  deliver(transcript: string): void {
+    if (this.onTranscriptCallback) {
+      this.onTranscriptCallback(transcript);
+    } else {
+      this.queue.push(transcript);
+    }
+  }
+
+  wait(timeoutMs: number, signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Transcript wait aborted', 'AbortError'));
+        return;
+      }
+
+      const onTranscript = (transcript: string) => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+        this.onTranscriptCallback = null;
+        resolve(transcript);
+      };
+
+      // A newer wait may have replaced this one (e.g. a keypress won a race); leave it installed
+      const uninstall = () => {
+        if (this.onTranscriptCallback === onTranscript) {
+          this.onTranscriptCallback = null;
+        }
+      };
+
+      const onAbort = () => {
+        clearTimeout(timeout);
+        uninstall();
+        reject(new DOMException('Transcript wait aborted', 'AbortError'));
+      };
+
+      const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        uninstall();
+        reject(new Error('Transcript timeout'));
+      }, timeoutMs);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.onTranscriptCallback = onTranscript;
+    });
+  }
+
+  take(): string[] {
+    return this.queue.splice(0);
+  }
+}
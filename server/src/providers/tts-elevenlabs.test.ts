@@ -0,0 +1,97 @@
+/**
+ * Tests for the ElevenLabs TTS provider, against a local mock of its streaming endpoint
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { ElevenLabsTTSProvider } from './tts-elevenlabs.js';
+
+interface ReceivedRequest {
+  path: string;
+  outputFormat: string | null;
+  apiKey: string | null;
+  body: any;
+}
+
+describe('ElevenLabsTTSProvider', () => {
+  let server: Server<undefined>;
+  let received: ReceivedRequest | null = null;
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        const url = new URL(request.url);
+        received = {
+          path: url.pathname,
+          outputFormat: url.searchParams.get('output_format'),
+          apiKey: request.headers.get('xi-api-key'),
+          body: await request.json(),
+        };
+        if (url.pathname.includes('unknown-voice')) {
+          return Response.json({ detail: { status: 'voice_not_found' } }, { status: 404 });
+        }
+        const stream = new ReadableStream({
+          start(controller) {
+            controller.enqueue(new Uint8Array(Buffer.alloc(160, 0x7f)));
+            controller.enqueue(new Uint8Array(Buffer.alloc(40, 0x7e)));
+            controller.close();
+          },
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'audio/basic' } });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  function createProvider(settings: { stability?: number; similarityBoost?: number } = {}): ElevenLabsTTSProvider {
+    const provider = new ElevenLabsTTSProvider();
+    provider.initialize({
+      apiKey: 'xi-key',
+      apiUrl: `http://localhost:${server.port}/v1/`,
+      voice: 'voice-1',
+      model: 'eleven_turbo_v2_5',
+      ...settings,
+    });
+    return provider;
+  }
+
+  test('declares mu-law output', () => {
+    expect(createProvider().outputFormat).toBe('ulaw_8000');
+  });
+
+  test('streams mu-law audio for the configured voice, model and settings', async () => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of createProvider({ stability: 0.4, similarityBoost: 0.8 }).synthesizeStream('Tests are green')) {
+      chunks.push(chunk);
+    }
+
+    expect(Buffer.concat(chunks)).toEqual(Buffer.concat([Buffer.alloc(160, 0x7f), Buffer.alloc(40, 0x7e)]));
+    expect(received).toEqual({
+      path: '/v1/text-to-speech/voice-1/stream',
+      outputFormat: 'ulaw_8000',
+      apiKey: 'xi-key',
+      body: {
+        text: 'Tests are green',
+        model_id: 'eleven_turbo_v2_5',
+        voice_settings: { stability: 0.4, similarity_boost: 0.8 },
+      },
+    });
+  });
+
+  test('uses the voice for the call and leaves voice settings to the voice by default', async () => {
+    const audio = await createProvider().synthesize('Hi Bob', { voice: 'voice-2' });
+
+    expect(audio.length).toBe(200);
+    expect(received!.path).toBe('/v1/text-to-speech/voice-2/stream');
+    expect(received!.body.voice_settings).toBeUndefined();
+  });
+
+  test('reports API errors', async () => {
+    await expect(createProvider().synthesize('Hi', { voice: 'unknown-voice' }))
+      .rejects.toThrow('ElevenLabs TTS request failed: 404');
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * ElevenLabs TTS Provider
+ *
+ * Streams speech from ElevenLabs directly in the phone's format (mu-law 8kHz),
+ * so nothing is resampled or re-encoded before it is played.
+ */
+
+import type { TTSProvider, TTSConfig, SynthesisOptions } from './types.js';
+
+const DEFAULT_API_URL = 'https://api.elevenlabs.io/v1';
+
+/** "Rachel", one of the default voices every account has */
+const DEFAULT_VOICE_ID = '21m00Tcm4TlvDq8ikWAM';
+
+export class ElevenLabsTTSProvider implements TTSProvider {
+  readonly name = 'elevenlabs';
+  readonly outputFormat = 'ulaw_8000';
+  private apiKey: string | null = null;
+  private apiUrl: string = DEFAULT_API_URL;
+  private voiceId: string = DEFAULT_VOICE_ID;
+  private model: string = 'eleven_flash_v2_5';
+  private voiceSettings: { stability?: number; similarity_boost?: number } = {};
+
+  initialize(config: TTSConfig): void {
+    if (!config.apiKey && !config.apiUrl) {
+      throw new Error('ElevenLabs API key required for TTS');
+    }
+
+    this.apiKey = config.apiKey || '';
+    this.apiUrl = (config.apiUrl || DEFAULT_API_URL).replace(/\/+$/, '');
+    this.voiceId = config.voice || DEFAULT_VOICE_ID;
+    this.model = config.model || 'eleven_flash_v2_5';
+    this.voiceSettings = {
+      ...(config.stability !== undefined && { stability: config.stability }),
+      ...(config.similarityBoost !== undefined && { similarity_boost: config.similarityBoost }),
+    };
+
+    const endpoint = config.apiUrl ? `, url: ${this.apiUrl}` : '';
+    console.error(`TTS provider: ElevenLabs (${this.model}, voice: ${this.voiceId}${endpoint})`);
+  }
+
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.synthesizeStream(text, options)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Stream TTS audio as chunks arrive from ElevenLabs
+   * Yields Buffer chunks of mu-law audio data
+   */
+  async *synthesizeStream(text: string, options: SynthesisOptions = {}): AsyncGenerator<Buffer> {
+    if (this.apiKey === null) throw new Error('ElevenLabs TTS not initialized');
+
+    const voiceId = encodeURIComponent(options.voice || this.voiceId);
+    const response = await fetch(`${this.apiUrl}/text-to-speech/${voiceId}/stream?output_format=ulaw_8000`, {
+      method: 'POST',
+      headers: {
+        'xi-api-key': this.apiKey,
+        'Content-Type': 'application/json',
+        'Accept': 'audio/basic',
+      },
+      body: JSON.stringify({
+        text,
+        model_id: this.model,
+        ...(Object.keys(this.voiceSettings).length > 0 && { voice_settings: this.voiceSettings }),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`ElevenLabs TTS request failed: ${response.status} ${await response.text()}`);
+    }
+
+    // Get the response body as a readable stream
+    const body = response.body;
+    if (!body) {
+      throw new Error('No response body from ElevenLabs TTS');
+    }
+
+    const reader = body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value) {
+          yield Buffer.from(value);
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
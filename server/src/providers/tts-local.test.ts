@@ -0,0 +1,115 @@
+/**
+ * Tests for the local TTS provider, with a fake engine script and a local HTTP server
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import type { Server } from 'bun';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalTTSProvider, parseCommand } from './tts-local.js';
+
+/** Fake engine: 12kHz mono WAV, 10 samples per character, louder for the "loud" voice */
+const ENGINE = `
+const text = await Bun.stdin.text();
+if (text.includes('crash')) {
+  console.error('engine crashed');
+  process.exit(3);
+}
+const level = process.argv[2] === 'loud' ? 8000 : 1000;
+const samples = text.length * 10;
+const wav = Buffer.alloc(44 + samples * 2);
+wav.write('RIFF', 0); wav.writeUInt32LE(36 + samples * 2, 4); wav.write('WAVE', 8);
+wav.write('fmt ', 12); wav.writeUInt32LE(16, 16); wav.writeUInt16LE(1, 20); wav.writeUInt16LE(1, 22);
+wav.writeUInt32LE(12000, 24); wav.writeUInt32LE(24000, 28); wav.writeUInt16LE(2, 32); wav.writeUInt16LE(16, 34);
+wav.write('data', 36); wav.writeUInt32LE(samples * 2, 40);
+for (let i = 0; i < samples; i++) wav.writeInt16LE(level, 44 + i * 2);
+process.stdout.write(wav);
+`;
+
+function samplesOf(buffer: Buffer): number[] {
+  return Array.from({ length: buffer.length / 2 }, (_, i) => buffer.readInt16LE(i * 2));
+}
+
+describe('parseCommand', () => {
+  test('splits on spaces and keeps quoted arguments together', () => {
+    expect(parseCommand(`piper --model "/models/en US.onnx" --speaker='{voice}'  --output-raw`))
+      .toEqual(['piper', '--model', '/models/en US.onnx', '--speaker={voice}', '--output-raw']);
+  });
+});
+
+describe('LocalTTSProvider', () => {
+  let dir: string;
+  let engine: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'callme-tts-local-'));
+    engine = join(dir, 'engine.ts');
+    writeFileSync(engine, ENGINE);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function commandProvider(voice?: string): LocalTTSProvider {
+    const provider = new LocalTTSProvider();
+    provider.initialize({ command: `"${process.execPath}" ${engine} {voice}`, voice });
+    return provider;
+  }
+
+  test('runs the command and converts its WAV output to 24kHz', async () => {
+    const pcm = await commandProvider().synthesize('hello');
+    // 50 samples at 12kHz
+    expect(samplesOf(pcm).length).toBe(99);
+    expect(new Set(samplesOf(pcm))).toEqual(new Set([1000]));
+  });
+
+  test('passes the voice for the call to the command', async () => {
+    const pcm = await commandProvider('quiet').synthesize('hi', { voice: 'loud' });
+    expect(samplesOf(pcm)[0]).toBe(8000);
+  });
+
+  test('reports a failing engine with its error output', async () => {
+    await expect(commandProvider().synthesize('crash')).rejects.toThrow('exited with code 3: engine crashed');
+  });
+
+  test('reports a missing engine', async () => {
+    const provider = new LocalTTSProvider();
+    provider.initialize({ command: 'callme-no-such-tts-engine' });
+    await expect(provider.synthesize('hi')).rejects.toThrow('Local TTS command not found');
+  });
+
+  test('streams raw PCM from an HTTP endpoint', async () => {
+    let request = null as { text: string; voice: string | null } | null;
+    const server: Server<undefined> = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        request = { text: await req.text(), voice: new URL(req.url).searchParams.get('voice') };
+        // Raw 16-bit PCM at 8kHz, sent in two parts
+        const stream = new ReadableStream({
+          start(controller) {
+            controller.enqueue(new Uint8Array(Buffer.alloc(100, 0x10)));
+            controller.enqueue(new Uint8Array(Buffer.alloc(100, 0x10)));
+            controller.close();
+          },
+        });
+        return new Response(stream);
+      },
+    });
+
+    try {
+      const provider = new LocalTTSProvider();
+      provider.initialize({ apiUrl: `http://localhost:${server.port}/tts`, sampleRate: 8000, voice: 'amy' });
+      const chunks: Buffer[] = [];
+      for await (const chunk of provider.synthesizeStream('Build finished')) chunks.push(chunk);
+
+      expect(request).toEqual({ text: 'Build finished', voice: 'amy' });
+      // 100 samples at 8kHz
+      expect(samplesOf(Buffer.concat(chunks)).length).toBe(298);
+      expect(new Set(samplesOf(Buffer.concat(chunks)))).toEqual(new Set([0x1010]));
+    } finally {
+      server.stop(true);
+    }
+  });
+});
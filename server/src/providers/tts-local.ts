@@ -0,0 +1,162 @@
+/**
+ * Local TTS Provider
+ *
+ * Synthesizes speech without a cloud service, either by:
+ * - Running a command-line engine (e.g. Piper) that reads the text on stdin
+ *   and writes WAV or raw 16-bit PCM to stdout
+ * - Posting the text to a local HTTP endpoint that returns WAV or raw PCM
+ *
+ * Output is converted to 16-bit mono 24kHz PCM and streamed as the engine
+ * writes it. No per-character cost.
+ */
+
+import { spawn } from 'child_process';
+import type { TTSProvider, TTSConfig, SynthesisOptions } from './types.js';
+import { OUTPUT_SAMPLE_RATE, PcmConverter } from './pcm-converter.js';
+
+/**
+ * Split a command line into arguments, honoring single and double quotes
+ * (no shell is involved, so nothing else is special)
+ */
+export function parseCommand(command: string): string[] {
+  const args: string[] = [];
+  const pattern = /"([^"]*)"|'([^']*)'|([^\s"']+)/g;
+  let current = '';
+  let lastEnd = -1;
+  for (const match of command.matchAll(pattern)) {
+    const part = match[1] ?? match[2] ?? match[3];
+    // Quoted and bare pieces with no space between them form one argument
+    if (match.index === lastEnd) {
+      current += part;
+    } else {
+      if (lastEnd !== -1) args.push(current);
+      current = part;
+    }
+    lastEnd = match.index + match[0].length;
+  }
+  if (lastEnd !== -1) args.push(current);
+  return args;
+}
+
+export class LocalTTSProvider implements TTSProvider {
+  readonly name = 'local';
+  readonly outputFormat = 'pcm_24000';
+  private command: string[] | null = null;
+  private url: string | null = null;
+  private voice: string | undefined;
+  private sampleRate: number = OUTPUT_SAMPLE_RATE;
+
+  initialize(config: TTSConfig): void {
+    if (config.command) {
+      this.command = parseCommand(config.command);
+      if (this.command.length === 0) throw new Error('Local TTS command is empty');
+    } else if (config.apiUrl) {
+      this.url = config.apiUrl;
+    } else {
+      throw new Error('Local TTS requires a command or an API URL');
+    }
+    this.voice = config.voice;
+    this.sampleRate = config.sampleRate || OUTPUT_SAMPLE_RATE;
+
+    const engine = this.command ? `command: ${this.command[0]}` : `url: ${this.url}`;
+    console.error(`TTS provider: Local (${engine}, raw sample rate: ${this.sampleRate}Hz)`);
+  }
+
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of this.synthesizeStream(text, options)) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Stream converted audio as the engine writes it
+   * Yields Buffer chunks of PCM audio data
+   */
+  async *synthesizeStream(text: string, options: SynthesisOptions = {}): AsyncGenerator<Buffer> {
+    const converter = new PcmConverter(this.sampleRate);
+    const voice = options.voice || this.voice;
+    const output = this.command ? this.runCommand(this.command, text, voice) : this.request(this.url!, text, voice);
+
+    for await (const chunk of output) {
+      const pcm = converter.push(chunk);
+      if (pcm.length > 0) yield pcm;
+    }
+  }
+
+  private async *runCommand(command: string[], text: string, voice: string | undefined): AsyncGenerator<Buffer> {
+    // {voice} in the command is replaced with the voice for this call
+    const args = command.slice(1).map((arg) => arg.replaceAll('{voice}', voice ?? ''));
+    const child = spawn(command[0], args, { stdio: ['pipe', 'pipe', 'pipe'] });
+
+    let stderr = '';
+    child.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-2000);
+    });
+    let spawnError: NodeJS.ErrnoException | null = null;
+    const exited = new Promise<number | null>((resolve) => {
+      child.on('error', (error) => {
+        spawnError = error;
+        resolve(null);
+      });
+      child.on('close', resolve);
+    });
+
+    child.stdin.on('error', () => {});  // The engine may exit without reading everything
+    child.stdin.end(text);
+
+    let finished = false;
+    try {
+      for await (const chunk of child.stdout) {
+        yield chunk as Buffer;
+      }
+      const code = await exited;
+      finished = true;
+      if (code !== 0) {
+        throw new Error(`Local TTS command exited with code ${code}: ${stderr.trim() || 'no output'}`);
+      }
+    } catch (error) {
+      // A command that failed to start also closes stdout early; report why it didn't start
+      await Promise.race([exited, new Promise((resolve) => setTimeout(resolve, 100))]);
+      const startError = spawnError as NodeJS.ErrnoException | null;
+      if (startError?.code === 'ENOENT') {
+        throw new Error(`Local TTS command not found: ${command[0]}`);
+      }
+      throw startError ?? error;
+    } finally {
+      // Stopped early (playback interrupted, or the output was unusable); the engine isn't needed any more
+      if (!finished) child.kill();
+    }
+  }
+
+  private async *request(url: string, text: string, voice: string | undefined): AsyncGenerator<Buffer> {
+    const endpoint = new URL(url);
+    if (voice) endpoint.searchParams.set('voice', voice);
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+      body: text,
+    });
+    if (!response.ok) {
+      throw new Error(`Local TTS request failed: ${response.status} ${await response.text()}`);
+    }
+    if (!response.body) {
+      throw new Error('No response body from local TTS');
+    }
+
+    const reader = response.body.getReader();
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (value) {
+          yield Buffer.from(value);
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
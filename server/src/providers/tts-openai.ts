@@ -8,32 +8,35 @@
  */
 
 import OpenAI from 'openai';
-import type { TTSProvider, TTSConfig } from './types.js';
+import type { TTSProvider, TTSConfig, SynthesisOptions } from './types.js';
 
 export class OpenAITTSProvider implements TTSProvider {
   readonly name = 'openai';
+  readonly outputFormat = 'pcm_24000';
   private client: OpenAI | null = null;
   private voice: string = 'onyx';
   private model: string = 'tts-1';
 
   initialize(config: TTSConfig): void {
-    if (!config.apiKey) {
+    // Self-hosted OpenAI-compatible servers often don't check the key
+    if (!config.apiKey && !config.apiUrl) {
       throw new Error('OpenAI API key required for TTS');
     }
 
-    this.client = new OpenAI({ apiKey: config.apiKey });
+    this.client = new OpenAI({ apiKey: config.apiKey || 'none', baseURL: config.apiUrl });
     this.voice = config.voice || 'onyx';
     this.model = config.model || 'tts-1';
 
-    console.error(`TTS provider: OpenAI (${this.model}, voice: ${this.voice})`);
+    const endpoint = config.apiUrl ? `, url: ${config.apiUrl}` : '';
+    console.error(`TTS provider: OpenAI (${this.model}, voice: ${this.voice}${endpoint})`);
   }
 
-  async synthesize(text: string): Promise<Buffer> {
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<Buffer> {
     if (!this.client) throw new Error('OpenAI TTS not initialized');
 
     const response = await this.client.audio.speech.create({
       model: this.model,
-      voice: this.voice as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer',
+      voice: (options.voice || this.voice) as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer',
       input: text,
       response_format: 'pcm',
       speed: 1.0,
@@ -47,12 +50,12 @@ export class OpenAITTSProvider implements TTSProvider {
    * Stream TTS audio as chunks arrive from OpenAI
    * Yields Buffer chunks of PCM audio data
    */
-  async *synthesizeStream(text: string): AsyncGenerator<Buffer> {
+  async *synthesizeStream(text: string, options: SynthesisOptions = {}): AsyncGenerator<Buffer> {
     if (!this.client) throw new Error('OpenAI TTS not initialized');
 
     const response = await this.client.audio.speech.create({
       model: this.model,
-      voice: this.voice as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer',
+      voice: (options.voice || this.voice) as 'alloy' | 'echo' | 'fable' | 'onyx' | 'nova' | 'shimmer',
       input: text,
       response_format: 'pcm',
       speed: 1.0,
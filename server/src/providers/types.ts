@@ -22,6 +22,11 @@ export interface PhoneProvider {
    */
   initiateCall(to: string, from: string, webhookUrl: string): Promise<string>;
 
+  /**
+   * Answer an inbound call
+   */
+  answerCall(callControlId: string): Promise<void>;
+
   /**
    * Hang up an active call
    */
@@ -59,9 +64,28 @@ export interface RealtimeSTTProvider {
   /**
    * Create a new realtime transcription session
    */
-  createSession(): RealtimeSTTSession;
+  createSession(options?: STTSessionOptions): RealtimeSTTSession;
+}
+
+/**
+ * Per-call transcription settings
+ */
+export interface STTSessionOptions {
+  /** Expected language code, e.g. "en" (default: auto-detect) */
+  language?: string;
 }
 
+export type SemanticVadEagerness = 'low' | 'medium' | 'high' | 'auto';
+
+/**
+ * How the transcription service decides an utterance is over
+ * - server_vad: after a fixed silence (STTConfig.silenceDurationMs)
+ * - semantic_vad: when the model judges the speaker has finished their thought
+ */
+export type TurnDetection =
+  | { type: 'server_vad' }
+  | { type: 'semantic_vad'; eagerness: SemanticVadEagerness };
+
 /**
  * Realtime STT Session - handles streaming audio and receiving transcripts
  */
@@ -80,14 +104,42 @@ export interface RealtimeSTTSession {
   /**
    * Wait for the next complete transcript (after VAD detects end of speech)
    * @param timeoutMs Maximum time to wait
+   * @param signal Stops waiting (rejecting with an AbortError DOMException) when aborted
    */
-  waitForTranscript(timeoutMs?: number): Promise<string>;
+  waitForTranscript(timeoutMs?: number, signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Take the transcripts that completed while nobody was waiting (e.g. while
+   * Claude was thinking or speaking), oldest first, and clear the queue
+   */
+  takeQueuedTranscripts(): string[];
+
+  /**
+   * Change how utterances are ended, from the next utterance on (default: server_vad)
+   */
+  setTurnDetection(detection: TurnDetection): void;
 
   /**
    * Set callback for partial transcriptions (streaming)
    */
   onPartial(callback: (partial: string) => void): void;
 
+  /**
+   * Set callback for when VAD detects the user starting to speak
+   */
+  onSpeechStart(callback: () => void): void;
+
+  /**
+   * Set callback for when VAD detects the user has stopped speaking
+   */
+  onSpeechEnd(callback: () => void): void;
+
+  /**
+   * Set callback for when an utterance VAD reported won't get a transcript
+   * (transcription failed or heard no words), oldest utterance first
+   */
+  onSpeechDropped(callback: () => void): void;
+
   /**
    * Close the session
    */
@@ -104,14 +156,30 @@ export interface STTConfig {
   apiUrl?: string;
   model?: string;
   silenceDurationMs?: number;
+  /** Speech level for providers that detect speech locally (RMS, 16-bit scale) */
+  vadThreshold?: number;
+  /** Names and terms to bias recognition toward (sent as a prompt or keywords) */
+  vocabulary?: string[];
 }
 
+/**
+ * Audio a TTS provider produces
+ * - pcm_24000: 16-bit mono PCM at 24kHz, resampled and mu-law encoded for the phone
+ * - ulaw_8000: mu-law at 8kHz, sent to the phone as is
+ */
+export type TTSOutputFormat = 'pcm_24000' | 'ulaw_8000';
+
 /**
  * Text-to-Speech Provider
  */
 export interface TTSProvider {
   readonly name: string;
 
+  /**
+   * Format of the audio from synthesize() and synthesizeStream()
+   */
+  readonly outputFormat: TTSOutputFormat;
+
   /**
    * Initialize the provider
    */
@@ -119,14 +187,22 @@ export interface TTSProvider {
 
   /**
    * Convert text to speech
-   * @returns PCM audio buffer (16-bit, mono, 24kHz)
+   * @returns Audio buffer in outputFormat
    */
-  synthesize(text: string): Promise<Buffer>;
+  synthesize(text: string, options?: SynthesisOptions): Promise<Buffer>;
 
   /**
    * Stream TTS audio as chunks arrive (optional, for lower latency)
    */
-  synthesizeStream?(text: string): AsyncGenerator<Buffer>;
+  synthesizeStream?(text: string, options?: SynthesisOptions): AsyncGenerator<Buffer>;
+}
+
+/**
+ * Per-call synthesis settings
+ */
+export interface SynthesisOptions {
+  /** Voice to use instead of the configured default */
+  voice?: string;
 }
 
 export interface TTSConfig {
@@ -134,6 +210,14 @@ export interface TTSConfig {
   apiUrl?: string;
   voice?: string;
   model?: string;
+  /** Command line of a local engine that reads text on stdin and writes audio to stdout */
+  command?: string;
+  /** Sample rate of raw (headerless) PCM from a local engine */
+  sampleRate?: number;
+  /** Voice stability, 0-1 (ElevenLabs) */
+  stability?: number;
+  /** How closely to match the original voice, 0-1 (ElevenLabs) */
+  similarityBoost?: number;
 }
 
 /**
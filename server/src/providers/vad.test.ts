@@ -0,0 +1,69 @@
+/**
+ * Tests for energy/zero-crossing voice activity detection
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { pcmToMuLaw } from '../audio-utils.js';
+import { analyzeFrame, EnergyVad, type VadEvent } from './vad.js';
+
+/** mu-law audio at 8kHz: a sine tone, or silence when amplitude is 0 */
+function tone(ms: number, amplitude: number, frequency = 200): Buffer {
+  const samples = (8000 * ms) / 1000;
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(amplitude * Math.sin((2 * Math.PI * frequency * i) / 8000)), i * 2);
+  }
+  return pcmToMuLaw(pcm);
+}
+
+describe('analyzeFrame', () => {
+  test('measures level and zero crossings', () => {
+    const pcm = Buffer.alloc(8);
+    [1000, -1000, 1000, -1000].forEach((sample, i) => pcm.writeInt16LE(sample, i * 2));
+    expect(analyzeFrame(pcm)).toEqual({ rms: 1000, zcr: 0.75 });
+  });
+});
+
+describe('EnergyVad', () => {
+  const options = { threshold: 600, silenceDurationMs: 400 };
+
+  test('cuts an utterance between silences', () => {
+    const vad = new EnergyVad(options);
+    const events: VadEvent[] = [
+      ...vad.push(tone(500, 0)),
+      ...vad.push(tone(1000, 3000)),
+      ...vad.push(tone(600, 0)),
+    ];
+
+    expect(events.map((event) => event.type)).toEqual(['speech_start', 'speech_end']);
+    const { audio } = events[1] as { audio: Buffer };
+    // The tone, plus the padding before it and the silence that ended it
+    expect(audio.length / 16).toBeGreaterThanOrEqual(1000 + 400);
+    expect(audio.length / 16).toBeLessThanOrEqual(1000 + 100 + 300 + 400);
+  });
+
+  test('ignores quiet noise and short clicks', () => {
+    const vad = new EnergyVad(options);
+    expect([...vad.push(tone(1000, 150)), ...vad.push(tone(40, 8000)), ...vad.push(tone(500, 0))]).toEqual([]);
+  });
+
+  test('counts quiet hiss-like sounds with many zero crossings', () => {
+    const vad = new EnergyVad(options);
+    expect(vad.push(tone(300, 500, 3000)).map((event) => event.type)).toEqual(['speech_start']);
+  });
+
+  test('handles audio arriving in uneven chunks', () => {
+    const vad = new EnergyVad(options);
+    const audio = Buffer.concat([tone(800, 3000), tone(600, 0)]);
+    const events: VadEvent[] = [];
+    for (let offset = 0; offset < audio.length; offset += 77) {
+      events.push(...vad.push(audio.subarray(offset, offset + 77)));
+    }
+    expect(events.map((event) => event.type)).toEqual(['speech_start', 'speech_end']);
+  });
+
+  test('cuts an utterance that runs too long', () => {
+    const vad = new EnergyVad({ ...options, maxUtteranceMs: 1000 });
+    expect(vad.push(tone(1500, 3000)).map((event) => event.type)).toEqual(['speech_start', 'speech_end', 'speech_start']);
+  });
+});
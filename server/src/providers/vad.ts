@@ -0,0 +1,132 @@
+/**
+ * Energy/Zero-Crossing Voice Activity Detection
+ *
+ * Cuts 8kHz mu-law phone audio into utterances for STT services that only
+ * transcribe whole files. Each 20ms frame counts as speech when it is loud
+ * enough (voiced sounds), or moderately loud with a high zero-crossing rate
+ * (unvoiced sounds like "s" and "f", which carry little energy). An utterance
+ * starts after a short run of speech frames and ends after a run of silence.
+ */
+
+import { muLawToPcm } from '../audio-utils.js';
+
+const SAMPLE_RATE = 8000;
+const FRAME_MS = 20;
+const FRAME_SAMPLES = (SAMPLE_RATE * FRAME_MS) / 1000;
+
+/** Zero crossings per sample above which a quiet frame is taken as an unvoiced consonant */
+const UNVOICED_ZCR = 0.25;
+
+export interface VadOptions {
+  /** RMS level (16-bit scale) of a speech frame; half of it counts for unvoiced sounds */
+  threshold: number;
+  /** Silence that ends an utterance */
+  silenceDurationMs: number;
+  /** Speech needed to start an utterance, so clicks and pops are ignored (default: 100) */
+  minSpeechMs?: number;
+  /** Audio kept from before the start was detected (default: 300) */
+  prefixPaddingMs?: number;
+  /** Longest utterance before it is cut anyway (default: 30000) */
+  maxUtteranceMs?: number;
+}
+
+export type VadEvent =
+  | { type: 'speech_start' }
+  /** audio: the utterance as 16-bit PCM, 8kHz mono */
+  | { type: 'speech_end'; audio: Buffer };
+
+/**
+ * Measure a frame of 16-bit PCM
+ * @returns rms: root mean square level, zcr: zero crossings per sample
+ */
+export function analyzeFrame(pcm: Buffer): { rms: number; zcr: number } {
+  const samples = pcm.length / 2;
+  if (samples === 0) return { rms: 0, zcr: 0 };
+
+  let sumSquares = 0;
+  let crossings = 0;
+  let previous = pcm.readInt16LE(0);
+  for (let i = 0; i < samples; i++) {
+    const sample = pcm.readInt16LE(i * 2);
+    sumSquares += sample * sample;
+    if ((sample >= 0) !== (previous >= 0)) crossings++;
+    previous = sample;
+  }
+  return { rms: Math.sqrt(sumSquares / samples), zcr: crossings / samples };
+}
+
+export class EnergyVad {
+  private threshold: number;
+  private silenceFrames: number;
+  private minSpeechFrames: number;
+  private prefixFrames: number;
+  private maxFrames: number;
+  private leftover = Buffer.alloc(0);  // mu-law bytes short of a whole frame
+  private recent: Buffer[] = [];  // Frames before speech started, for padding
+  private utterance: Buffer[] | null = null;
+  private speechRun = 0;
+  private silenceRun = 0;
+
+  constructor(options: VadOptions) {
+    const frames = (ms: number) => Math.max(1, Math.round(ms / FRAME_MS));
+    this.threshold = options.threshold;
+    this.silenceFrames = frames(options.silenceDurationMs);
+    this.minSpeechFrames = frames(options.minSpeechMs ?? 100);
+    this.prefixFrames = frames(options.prefixPaddingMs ?? 300);
+    this.maxFrames = frames(options.maxUtteranceMs ?? 30000);
+  }
+
+  /**
+   * Change the silence that ends an utterance, from the next frame on
+   */
+  setSilenceDuration(ms: number): void {
+    this.silenceFrames = Math.max(1, Math.round(ms / FRAME_MS));
+  }
+
+  /**
+   * Feed mu-law audio
+   * @returns Utterance starts and ends detected in it
+   */
+  push(muLaw: Buffer): VadEvent[] {
+    const audio = this.leftover.length > 0 ? Buffer.concat([this.leftover, muLaw]) : muLaw;
+    const whole = audio.length - (audio.length % FRAME_SAMPLES);
+    this.leftover = Buffer.from(audio.subarray(whole));
+
+    const events: VadEvent[] = [];
+    for (let offset = 0; offset < whole; offset += FRAME_SAMPLES) {
+      const event = this.processFrame(muLawToPcm(audio.subarray(offset, offset + FRAME_SAMPLES)));
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  private isSpeech(frame: Buffer): boolean {
+    const { rms, zcr } = analyzeFrame(frame);
+    return rms >= this.threshold || (rms >= this.threshold / 2 && zcr >= UNVOICED_ZCR);
+  }
+
+  private processFrame(frame: Buffer): VadEvent | null {
+    const speech = this.isSpeech(frame);
+
+    if (!this.utterance) {
+      this.recent.push(frame);
+      if (this.recent.length > this.prefixFrames + this.minSpeechFrames) this.recent.shift();
+      this.speechRun = speech ? this.speechRun + 1 : 0;
+      if (this.speechRun < this.minSpeechFrames) return null;
+
+      this.utterance = this.recent;
+      this.recent = [];
+      this.silenceRun = 0;
+      return { type: 'speech_start' };
+    }
+
+    this.utterance.push(frame);
+    this.silenceRun = speech ? 0 : this.silenceRun + 1;
+    if (this.silenceRun < this.silenceFrames && this.utterance.length < this.maxFrames) return null;
+
+    const audio = Buffer.concat(this.utterance);
+    this.utterance = null;
+    this.speechRun = 0;
+    return { type: 'speech_end', audio };
+  }
+}
@@ -9,6 +9,9 @@ import {
   TelegramProvider,
   TelegramBotProvider,
 } from './providers/telegram.js';
+import type { ConversationStore } from './conversation-store.js';
+import { isAbortError, throwIfAborted } from './abort.js';
+import { log } from './mcp-logging.js';
 
 interface ChatState {
   chatId: string;
@@ -23,6 +26,8 @@ export interface TelegramConfig {
   responseTimeoutMs: number;
   verboseMode: boolean;
   listenModeEnabled: boolean;
+  /** Sent when Claude cancels a wait for a reply (null = send nothing) */
+  cancelMessage: string | null;
 }
 
 export function loadTelegramConfig(): TelegramConfig {
@@ -54,6 +59,7 @@ export function loadTelegramConfig(): TelegramConfig {
     responseTimeoutMs,
     verboseMode,
     listenModeEnabled,
+    cancelMessage: process.env.CALLME_CANCEL_MESSAGE || null,
   };
 }
 
@@ -67,9 +73,11 @@ export class TelegramChatManager {
   private shutdownRequested = false;
   private isListening = false;
   private pollingAbortController: AbortController | null = null;
+  private store: ConversationStore | null;
 
-  constructor(config: TelegramConfig) {
+  constructor(config: TelegramConfig, store: ConversationStore | null = null) {
     this.config = config;
+    this.store = store;
     this.verboseMode = config.verboseMode;
     this.telegram = new TelegramBotProvider();
     this.telegram.initialize({
@@ -142,7 +150,7 @@ export class TelegramChatManager {
           if (error instanceof DOMException && error.name === 'AbortError') {
             continue;
           }
-          console.error('[idle] Polling error:', error);
+          log.error('[idle] Polling error:', error);
         }
       }
 
@@ -150,7 +158,7 @@ export class TelegramChatManager {
     }
   }
 
-  async initiateChat(message: string): Promise<{ chatId: string; response: string }> {
+  async initiateChat(message: string, signal?: AbortSignal): Promise<{ chatId: string; response: string }> {
     if (this.activeChat) {
       throw new Error(`Chat already active: ${this.activeChat.chatId}`);
     }
@@ -168,28 +176,67 @@ export class TelegramChatManager {
     };
 
     this.activeChat = state;
+    this.store?.startConversation({
+      id: chatId,
+      channel: 'telegram',
+      direction: 'outbound',
+      participantAddress: this.config.userChatId,
+      startedAt: state.startTime,
+    });
 
     try {
       await this.telegram.sendMessage(message);
       console.error(`[${chatId}] Sent: ${message.substring(0, 50)}...`);
+      this.store?.addMessage(chatId, 'claude', message);
 
-      const response = await this.waitForResponse(state);
+      const response = await this.waitForResponse(state, signal);
       return { chatId, response };
     } catch (error) {
+      // Claude never got the chat ID, so a cancelled chat is closed rather than left active
+      const cancelled = isAbortError(error, signal);
+      if (cancelled) {
+        await this.sendCancelMessage(chatId);
+      }
+      this.store?.endConversation(chatId, cancelled ? 'CANCELLED' : 'FAILED');
       this.activeChat = null;
       throw error;
     }
   }
 
-  async continueChat(chatId: string, message: string): Promise<string> {
+  async continueChat(chatId: string, message: string, signal?: AbortSignal): Promise<string> {
     const state = this.activeChat;
     if (!state || state.chatId !== chatId) throw new Error(`No active chat: ${chatId}`);
     if (state.ended) throw new Error(`Chat ${chatId} has ended`);
 
     await this.telegram.sendMessage(message);
     console.error(`[${chatId}] Sent: ${message.substring(0, 50)}...`);
+    this.store?.addMessage(chatId, 'claude', message);
+
+    try {
+      return await this.waitForResponse(state, signal);
+    } catch (error) {
+      // The chat stays active for the next continue_chat or end_chat
+      if (isAbortError(error, signal)) {
+        await this.sendCancelMessage(chatId);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Send CALLME_CANCEL_MESSAGE (if set) after Claude cancels a wait for a reply
+   */
+  private async sendCancelMessage(chatId: string): Promise<void> {
+    console.error(`[${chatId}] Wait cancelled by the client`);
+    const message = this.config.cancelMessage;
+    if (!message) return;
 
-    return this.waitForResponse(state);
+    try {
+      await this.telegram.sendMessage(message);
+      this.store?.addMessage(chatId, 'claude', message);
+    } catch (error) {
+      log.error(`[${chatId}] Failed to send cancel message:`, error);
+    }
   }
 
   async sendMessage(chatId: string, message: string): Promise<void> {
@@ -199,6 +246,7 @@ export class TelegramChatManager {
 
     await this.telegram.sendMessage(message);
     console.error(`[${chatId}] Sent (no response expected): ${message.substring(0, 50)}...`);
+    this.store?.addMessage(chatId, 'claude', message);
   }
 
   async endChat(chatId: string, message: string): Promise<{ durationSeconds: number }> {
@@ -207,9 +255,11 @@ export class TelegramChatManager {
 
     await this.telegram.sendMessage(message);
     console.error(`[${chatId}] Sent closing message: ${message.substring(0, 50)}...`);
+    this.store?.addMessage(chatId, 'claude', message);
 
     state.ended = true;
     const durationSeconds = Math.round((Date.now() - state.startTime) / 1000);
+    this.store?.endConversation(chatId, 'COMPLETED');
 
     // Never regress the offset
     this.globalUpdateOffset = Math.max(this.globalUpdateOffset, state.lastUpdateId);
@@ -218,7 +268,7 @@ export class TelegramChatManager {
     return { durationSeconds };
   }
 
-  private async waitForResponse(state: ChatState): Promise<string> {
+  private async waitForResponse(state: ChatState, signal?: AbortSignal): Promise<string> {
     console.error(`[${state.chatId}] Waiting for user response...`);
 
     const startTime = Date.now();
@@ -228,9 +278,10 @@ export class TelegramChatManager {
       if (state.ended) {
         throw new Error('Chat was ended');
       }
+      throwIfAborted(signal);
 
       try {
-        const updates = await this.telegram.getUpdates(state.lastUpdateId);
+        const updates = await this.telegram.getUpdates(state.lastUpdateId, undefined, signal);
 
         for (const update of updates) {
           state.lastUpdateId = update.update_id + 1;
@@ -252,11 +303,13 @@ export class TelegramChatManager {
             }
 
             console.error(`[${state.chatId}] User said: ${text}`);
+            this.store?.addMessage(state.chatId, 'user', text);
             return text;
           }
         }
       } catch (error) {
-        console.error(`[${state.chatId}] Error getting updates:`, error);
+        if (isAbortError(error, signal)) throw error;
+        log.error(`[${state.chatId}] Error getting updates:`, error);
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
     }
@@ -282,7 +335,7 @@ export class TelegramChatManager {
     console.error(`[broadcast] ${message.substring(0, 50)}...`);
   }
 
-  async listenForCommand(prompt?: string): Promise<string> {
+  async listenForCommand(prompt?: string, signal?: AbortSignal): Promise<string> {
     if (this.activeChat) {
       throw new Error(`Cannot listen while chat is active: ${this.activeChat.chatId}`);
     }
@@ -304,8 +357,9 @@ export class TelegramChatManager {
       const startTime = Date.now();
 
       while (Date.now() - startTime < timeout) {
+        throwIfAborted(signal);
         try {
-          const updates = await this.telegram.getUpdates(this.globalUpdateOffset);
+          const updates = await this.telegram.getUpdates(this.globalUpdateOffset, undefined, signal);
 
           for (const update of updates) {
             this.globalUpdateOffset = update.update_id + 1;
@@ -330,7 +384,8 @@ export class TelegramChatManager {
             }
           }
         } catch (error) {
-          console.error('[listen] Polling error:', error);
+          if (isAbortError(error, signal)) throw error;
+          log.error('[listen] Polling error:', error);
           await new Promise(resolve => setTimeout(resolve, 1000));
         }
       }
@@ -384,7 +439,7 @@ export class TelegramChatManager {
       try {
         await this.endChat(this.activeChat.chatId, 'Session ended. Goodbye!');
       } catch (error) {
-        console.error('Error during shutdown:', error);
+        log.error('Error during shutdown:', error);
       }
     }
   }
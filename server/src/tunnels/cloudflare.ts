@@ -4,6 +4,7 @@
 
 import { spawn, type ChildProcess } from 'child_process';
 import { TUNNEL_CONSTANTS, type TunnelProvider } from './types.js';
+import { log } from '../mcp-logging.js';
 
 export class CloudflareTunnel implements TunnelProvider {
   readonly name = 'cloudflare';
@@ -186,11 +187,11 @@ export class CloudflareTunnel implements TunnelProvider {
       console.error(`[cloudflare] Reconnected successfully: ${newUrl}`);
 
       if (oldUrl && newUrl !== oldUrl) {
-        console.error(`[cloudflare] WARNING: Tunnel URL changed from ${oldUrl} to ${newUrl}`);
+        log.warn(`[cloudflare] WARNING: Tunnel URL changed from ${oldUrl} to ${newUrl}`);
         console.error('[cloudflare] Phone provider webhooks may need to be updated');
       }
     } catch (error) {
-      console.error('[cloudflare] Reconnect failed:', error);
+      log.error('[cloudflare] Reconnect failed:', error);
       this.attemptReconnect();
     }
   }
@@ -4,6 +4,7 @@
 
 import ngrok from '@ngrok/ngrok';
 import { TUNNEL_CONSTANTS, type TunnelProvider } from './types.js';
+import { log } from '../mcp-logging.js';
 
 export class NgrokTunnel implements TunnelProvider {
   readonly name = 'ngrok';
@@ -93,7 +94,7 @@ export class NgrokTunnel implements TunnelProvider {
           clearInterval(this.checkInterval);
           this.checkInterval = null;
         }
-        console.error('[ngrok] Tunnel health check failed:', error);
+        log.error('[ngrok] Tunnel health check failed:', error);
         this.attemptReconnect();
       }
     }, TUNNEL_CONSTANTS.HEALTH_CHECK_INTERVAL_MS);
@@ -135,11 +136,11 @@ export class NgrokTunnel implements TunnelProvider {
       console.error(`[ngrok] Reconnected successfully: ${newUrl}`);
 
       if (oldUrl && newUrl !== oldUrl) {
-        console.error(`[ngrok] WARNING: Tunnel URL changed from ${oldUrl} to ${newUrl}`);
+        log.warn(`[ngrok] WARNING: Tunnel URL changed from ${oldUrl} to ${newUrl}`);
         console.error('[ngrok] Phone provider webhooks may need to be updated');
       }
     } catch (error) {
-      console.error('[ngrok] Reconnect failed:', error);
+      log.error('[ngrok] Reconnect failed:', error);
       this.attemptReconnect();
     }
   }
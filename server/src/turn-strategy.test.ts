@@ -0,0 +1,39 @@
+/**
+ * Tests for turn strategies
+ */
+
+import { describe, test, expect } from 'bun:test';
+import { DEFAULT_TURN_STRATEGY, resolveTurnStrategy, stripEndKeyword } from './turn-strategy.js';
+
+describe('stripEndKeyword', () => {
+  const keywords = ['over', "that's it"];
+
+  test('strips a trailing keyword and its punctuation', () => {
+    expect(stripEndKeyword('Deploy to staging first. Over.', keywords)).toBe('Deploy to staging first');
+    expect(stripEndKeyword("Use the v2 API, that's it!", keywords)).toBe('Use the v2 API');
+    expect(stripEndKeyword('Over', keywords)).toBe('');
+  });
+
+  test('ignores keywords that are not at the end', () => {
+    expect(stripEndKeyword('Start over with the tests', keywords)).toBeNull();
+    expect(stripEndKeyword('Hand it over', keywords)).toBe('Hand it');
+    expect(stripEndKeyword('The game is overtime', keywords)).toBeNull();
+  });
+});
+
+describe('resolveTurnStrategy', () => {
+  test('overrides only the given fields', () => {
+    const strategy = resolveTurnStrategy(DEFAULT_TURN_STRATEGY, { type: 'semantic_vad', eagerness: 'low' });
+    expect(strategy).toEqual({ ...DEFAULT_TURN_STRATEGY, type: 'semantic_vad', eagerness: 'low' });
+  });
+
+  test('keeps the default keywords when given none', () => {
+    expect(resolveTurnStrategy(DEFAULT_TURN_STRATEGY, { endKeywords: [' ', ''] }).endKeywords)
+      .toEqual(DEFAULT_TURN_STRATEGY.endKeywords);
+  });
+
+  test('rejects unknown values', () => {
+    expect(() => resolveTurnStrategy(DEFAULT_TURN_STRATEGY, { type: 'magic' as never })).toThrow('Unknown turn strategy');
+    expect(() => resolveTurnStrategy(DEFAULT_TURN_STRATEGY, { eagerness: 'eager' as never })).toThrow('Unknown eagerness');
+  });
+});
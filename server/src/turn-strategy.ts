@@ -0,0 +1,107 @@
+/**
+ * Turn Strategies
+ *
+ * How CallManager decides the user has finished their reply. By default the
+ * first pause the STT provider's VAD detects ends the turn, which cuts people
+ * off when they stop to think; the other strategies wait longer or let the
+ * user say (or press) when they're done.
+ */
+
+import type { SemanticVadEagerness } from './providers/types.js';
+
+export type TurnStrategyType = 'vad' | 'semantic_vad' | 'keyword' | 'keypad';
+
+export const TURN_STRATEGY_TYPES: readonly TurnStrategyType[] = ['vad', 'semantic_vad', 'keyword', 'keypad'];
+
+export const SEMANTIC_VAD_EAGERNESS: readonly SemanticVadEagerness[] = ['low', 'medium', 'high', 'auto'];
+
+export interface TurnStrategy {
+  /**
+   * vad: the turn ends at a pause (segments closer than mergeWindowMs are joined)
+   * semantic_vad: the STT model decides when the user sounds finished
+   * keyword: the turn ends when the user says one of endKeywords last
+   * keypad: the turn ends when the user presses #
+   */
+  type: TurnStrategyType;
+  /** vad: join a new segment that starts within this long of the last one (0 = don't join) */
+  mergeWindowMs: number;
+  /** semantic_vad: how readily the model ends the turn */
+  eagerness: SemanticVadEagerness;
+  /** keyword: phrases that end the turn, stripped from the response */
+  endKeywords: string[];
+}
+
+export const DEFAULT_TURN_STRATEGY: TurnStrategy = {
+  type: 'vad',
+  mergeWindowMs: 0,
+  eagerness: 'auto',
+  endKeywords: ['over', "that's it"],
+};
+
+/**
+ * Apply overrides (e.g. from tool arguments) to a strategy
+ * @throws Error on an unknown type or eagerness
+ */
+export function resolveTurnStrategy(base: TurnStrategy, overrides: Partial<TurnStrategy>): TurnStrategy {
+  const strategy = { ...base };
+  if (overrides.type !== undefined) {
+    if (!TURN_STRATEGY_TYPES.includes(overrides.type)) {
+      throw new Error(`Unknown turn strategy "${overrides.type}". Use: ${TURN_STRATEGY_TYPES.join(', ')}`);
+    }
+    strategy.type = overrides.type;
+  }
+  if (overrides.mergeWindowMs !== undefined) {
+    strategy.mergeWindowMs = Math.max(0, overrides.mergeWindowMs);
+  }
+  if (overrides.eagerness !== undefined) {
+    if (!SEMANTIC_VAD_EAGERNESS.includes(overrides.eagerness)) {
+      throw new Error(`Unknown eagerness "${overrides.eagerness}". Use: ${SEMANTIC_VAD_EAGERNESS.join(', ')}`);
+    }
+    strategy.eagerness = overrides.eagerness;
+  }
+  if (overrides.endKeywords !== undefined) {
+    const keywords = overrides.endKeywords.map((keyword) => keyword.trim()).filter(Boolean);
+    if (keywords.length > 0) strategy.endKeywords = keywords;
+  }
+  return strategy;
+}
+
+/**
+ * Load the default turn strategy from environment variables
+ * @throws Error on an unknown strategy or eagerness
+ */
+export function loadTurnStrategy(): TurnStrategy {
+  const mergeWindowMs = parseInt(process.env.CALLME_TURN_MERGE_WINDOW_MS || '', 10);
+
+  return resolveTurnStrategy(DEFAULT_TURN_STRATEGY, {
+    type: (process.env.CALLME_TURN_STRATEGY || undefined) as TurnStrategyType | undefined,
+    mergeWindowMs: isNaN(mergeWindowMs) ? undefined : mergeWindowMs,
+    eagerness: (process.env.CALLME_TURN_EAGERNESS || undefined) as SemanticVadEagerness | undefined,
+    endKeywords: process.env.CALLME_TURN_END_KEYWORDS?.split(','),
+  });
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}' ]+/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Check whether the user ended what they said with an end keyword
+ * @returns The text without the keyword, or null if it doesn't end with one
+ */
+export function stripEndKeyword(text: string, keywords: string[]): string | null {
+  const normalized = normalize(text);
+  for (const keyword of keywords) {
+    const phrase = normalize(keyword);
+    if (!phrase) continue;
+    if (normalized !== phrase && !normalized.endsWith(` ${phrase}`)) continue;
+
+    // Drop as many trailing words from the original text as the keyword has
+    const words = text.trim().split(/\s+/);
+    return words
+      .slice(0, words.length - phrase.split(' ').length)
+      .join(' ')
+      .replace(/[\s,;:.!?-]+$/, '');
+  }
+  return null;
+}
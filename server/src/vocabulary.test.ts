@@ -0,0 +1,70 @@
+/**
+ * Tests for the speech recognition vocabulary
+ */
+
+import { describe, test, expect, afterEach } from 'bun:test';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { harvestProjectVocabulary, limitVocabulary, loadVocabulary, parseWordList } from './vocabulary.js';
+
+describe('parseWordList', () => {
+  test('reads one term per line or comma-separated, skipping comments', () => {
+    expect(parseWordList('# services\nledgerd, payrun\n\nKafka Connect  # the ingest path\n')).toEqual([
+      'ledgerd',
+      'payrun',
+      'Kafka Connect',
+    ]);
+  });
+});
+
+describe('limitVocabulary', () => {
+  test('drops duplicates and stops before the prompt gets too long', () => {
+    // "ledgerd, payrun" is 15 characters
+    expect(limitVocabulary(['ledgerd', 'Ledgerd', 'payrun', 'zod'], 15)).toEqual(['ledgerd', 'payrun']);
+  });
+});
+
+describe('harvestProjectVocabulary / loadVocabulary', () => {
+  let dir: string | null = null;
+
+  afterEach(() => {
+    if (dir) rmSync(dir, { recursive: true, force: true });
+    dir = null;
+  });
+
+  function makeProject(): string {
+    dir = mkdtempSync(join(tmpdir(), 'callme-vocabulary-'));
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({
+      name: '@acme/payrun',
+      dependencies: { zod: '^3.0.0' },
+      devDependencies: { '@types/node': '^20.0.0' },
+    }));
+    for (const sub of ['ledgerd', 'node_modules', '.git', 'src']) mkdirSync(join(dir, sub));
+    writeFileSync(join(dir, 'ledgerd', 'package.json'), JSON.stringify({ name: 'ledgerd-core', dependencies: { hono: '^4.0.0' } }));
+    writeFileSync(join(dir, 'README.md'), '');
+    return dir;
+  }
+
+  test('harvests package names, directories, then dependencies', () => {
+    expect(harvestProjectVocabulary(makeProject())).toEqual(['acme', 'payrun', 'ledgerd', 'ledgerd-core', 'zod', 'hono']);
+  });
+
+  test('puts the word list before harvested names', () => {
+    const project = makeProject();
+    const wordList = join(project, 'words.txt');
+    writeFileSync(wordList, 'Kafka Connect\npayrun\n');
+
+    expect(loadVocabulary(wordList, project, 500)).toEqual(['Kafka Connect', 'payrun', 'acme', 'ledgerd', 'ledgerd-core', 'zod', 'hono']);
+    expect(loadVocabulary(wordList, project, 30)).toEqual(['Kafka Connect', 'payrun', 'acme']);
+  });
+
+  test('is empty when nothing is configured', () => {
+    expect(loadVocabulary(undefined, undefined, NaN)).toEqual([]);
+  });
+
+  test('rejects a missing file or project directory', () => {
+    expect(() => loadVocabulary('/nonexistent/words.txt', undefined, NaN)).toThrow('Failed to read vocabulary file');
+    expect(() => loadVocabulary(undefined, '/nonexistent/project', NaN)).toThrow('not a directory');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Speech Recognition Vocabulary
+ *
+ * Words the STT provider should expect, like package and service names it
+ * would otherwise mangle. They come from a word list (CALLME_STT_VOCABULARY_FILE)
+ * and, optionally, from a project directory (CALLME_STT_VOCABULARY_PROJECT_DIR):
+ * package.json names and dependencies, and top-level directory names. The list
+ * is cut to CALLME_STT_VOCABULARY_MAX_CHARS so the prompt built from it stays
+ * small; words from the file are kept first.
+ */
+
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
+
+export const DEFAULT_VOCABULARY_MAX_CHARS = 500;
+
+/** Separator used when the list is turned into a prompt */
+const SEPARATOR = ', ';
+
+/** Directories that are build output, tooling, or words STT already knows */
+const IGNORED_DIRS = new Set([
+  'node_modules', 'dist', 'build', 'out', 'coverage', 'vendor', 'target',
+  'tmp', 'temp', 'bin', 'lib', 'src', 'test', 'tests', 'docs', 'scripts',
+]);
+
+/**
+ * Parse a word list: one word or phrase per line, commas also separate,
+ * and # starts a comment
+ */
+export function parseWordList(text: string): string[] {
+  return text
+    .split('\n')
+    .flatMap((line) => line.replace(/#.*/, '').split(','))
+    .map((word) => word.trim())
+    .filter(Boolean);
+}
+
+/** Split an npm package name into the words someone would say ("@acme/billing-api" -> acme, billing-api) */
+function packageWords(name: string): string[] {
+  if (name.startsWith('@types/')) return [];
+  return name.replace(/^@/, '').split('/').filter(Boolean);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+interface PackageNames {
+  names: string[];
+  dependencies: string[];
+}
+
+function readPackageNames(dir: string): PackageNames {
+  let pkg: unknown;
+  try {
+    pkg = JSON.parse(readFileSync(join(dir, 'package.json'), 'utf8'));
+  } catch {
+    pkg = null;
+  }
+  if (!isRecord(pkg)) {
+    return { names: [], dependencies: [] };  // No package.json, or not one we can read
+  }
+
+  const dependencies = [pkg.dependencies, pkg.devDependencies, pkg.peerDependencies]
+    .flatMap((deps) => (isRecord(deps) ? Object.keys(deps) : []));
+  return {
+    names: typeof pkg.name === 'string' ? packageWords(pkg.name) : [],
+    dependencies: dependencies.flatMap(packageWords),
+  };
+}
+
+/**
+ * Collect names from a project: its package name, top-level directories and
+ * the packages in them, then dependencies (least likely to be said, so last)
+ */
+export function harvestProjectVocabulary(projectDir: string): string[] {
+  const root = readPackageNames(projectDir);
+  const dirs = readdirSync(projectDir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith('.') && !IGNORED_DIRS.has(entry.name))
+    .map((entry) => entry.name)
+    .sort();
+  const nested = dirs.map((dir) => readPackageNames(join(projectDir, dir)));
+
+  return [
+    ...root.names,
+    ...dirs,
+    ...nested.flatMap((pkg) => pkg.names),
+    ...root.dependencies,
+    ...nested.flatMap((pkg) => pkg.dependencies),
+  ];
+}
+
+/**
+ * Drop duplicates (ignoring case) and keep words in order until the prompt
+ * built from them would exceed maxChars
+ */
+export function limitVocabulary(words: string[], maxChars: number): string[] {
+  const seen = new Set<string>();
+  const kept: string[] = [];
+  let length = 0;
+
+  for (const word of words) {
+    const key = word.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const added = (kept.length > 0 ? SEPARATOR.length : 0) + word.length;
+    if (length + added > maxChars) break;
+    kept.push(word);
+    length += added;
+  }
+  return kept;
+}
+
+/**
+ * Load the vocabulary from environment variables
+ * @returns The words to prompt STT with (empty when nothing is configured)
+ * @throws Error if the word list or project directory can't be read
+ */
+export function loadVocabulary(
+  path = process.env.CALLME_STT_VOCABULARY_FILE,
+  projectDir = process.env.CALLME_STT_VOCABULARY_PROJECT_DIR,
+  maxChars = parseInt(process.env.CALLME_STT_VOCABULARY_MAX_CHARS || '', 10),
+): string[] {
+  const words: string[] = [];
+
+  if (path) {
+    try {
+      words.push(...parseWordList(readFileSync(path, 'utf8')));
+    } catch (error) {
+      throw new Error(`Failed to read vocabulary file ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (projectDir) {
+    if (!statSync(projectDir, { throwIfNoEntry: false })?.isDirectory()) {
+      throw new Error(`CALLME_STT_VOCABULARY_PROJECT_DIR is not a directory: ${projectDir}`);
+    }
+    words.push(...harvestProjectVocabulary(projectDir));
+  }
+
+  return limitVocabulary(words, isNaN(maxChars) || maxChars < 1 ? DEFAULT_VOCABULARY_MAX_CHARS : maxChars);
+}
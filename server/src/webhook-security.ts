@@ -6,6 +6,7 @@
  */
 
 import { createHmac, verify } from 'crypto';
+import { log } from './mcp-logging.js';
 
 /**
  * Validate Twilio webhook signature
@@ -26,7 +27,7 @@ export function validateTwilioSignature(
   params: URLSearchParams
 ): boolean {
   if (!signature) {
-    console.error('[Security] Missing X-Twilio-Signature header');
+    log.warn('[Security] Missing X-Twilio-Signature header');
     return false;
   }
 
@@ -50,7 +51,7 @@ export function validateTwilioSignature(
   const valid = signature === expectedSignature;
 
   if (!valid) {
-    console.error('[Security] Twilio signature mismatch');
+    log.warn('[Security] Twilio signature mismatch');
     console.error(`[Security] Expected: ${expectedSignature}`);
     console.error(`[Security] Received: ${signature}`);
   }
@@ -74,7 +75,7 @@ export function validateTelnyxSignature(
   body: string
 ): boolean {
   if (!signature || !timestamp) {
-    console.error('[Security] Missing Telnyx signature headers');
+    log.warn('[Security] Missing Telnyx signature headers');
     return false;
   }
 
@@ -84,7 +85,7 @@ export function validateTelnyxSignature(
   const fiveMinutes = 5 * 60 * 1000;
 
   if (Math.abs(now - timestampMs) > fiveMinutes) {
-    console.error('[Security] Telnyx timestamp too old or in future');
+    log.warn('[Security] Telnyx timestamp too old or in future');
     return false;
   }
 
@@ -107,12 +108,12 @@ export function validateTelnyxSignature(
     );
 
     if (!valid) {
-      console.error('[Security] Telnyx signature verification failed');
+      log.warn('[Security] Telnyx signature verification failed');
     }
 
     return valid;
   } catch (error) {
-    console.error('[Security] Telnyx signature verification error:', error);
+    log.error('[Security] Telnyx signature verification error:', error);
     return false;
   }
 }
@@ -165,13 +166,13 @@ export function validateWebSocketToken(
   receivedToken: string | undefined
 ): boolean {
   if (!receivedToken) {
-    console.error('[Security] Missing WebSocket token');
+    log.warn('[Security] Missing WebSocket token');
     return false;
   }
 
   // Use timing-safe comparison to prevent timing attacks
   if (expectedToken.length !== receivedToken.length) {
-    console.error('[Security] WebSocket token length mismatch');
+    log.warn('[Security] WebSocket token length mismatch');
     return false;
   }
 
@@ -182,7 +183,7 @@ export function validateWebSocketToken(
 
   const valid = result === 0;
   if (!valid) {
-    console.error('[Security] WebSocket token mismatch');
+    log.warn('[Security] WebSocket token mismatch');
   }
 
   return valid;